@@ -5,6 +5,23 @@ import {
     CreateNftResponse,
     CreateOfferRequest,
     CreateOfferResponse,
+    CheckOfferStatusRequest,
+    CheckOfferStatusResponse,
+    BuyNowRequest,
+    BuyNowResponse,
+    AcceptBidRequest,
+    AcceptBidResponse,
+    CancelOfferRequest,
+    CancelOfferResponse,
+    TrustLinesRequest,
+    TrustLinesResponse,
+    EscrowCreateRequest,
+    EscrowCreateResponse,
+    EscrowStatusResponse,
+    UploadAssetMediaResponse,
+    VerifyDocumentResponse,
+    AttestNftRequest,
+    AttestNftResponse,
     SignInResponse,
     SignInStatusResponse,
     ApiResponse,
@@ -36,10 +53,12 @@ export class RwaMarketplaceClient {
         this.client.interceptors.response.use(
             (response: AxiosResponse) => response,
             (error: AxiosError) => {
+                const data = error.response?.data as { error?: unknown } | undefined;
                 const apiError: ApiError = {
-                    message: String(error.response?.data) || error.message,
+                    message: typeof data?.error === 'string' ? data.error : String(data) || error.message,
                     status: error.response?.status,
                     code: error.code,
+                    data,
                 };
                 return Promise.reject(apiError);
             }
@@ -96,6 +115,134 @@ export class RwaMarketplaceClient {
         }
     }
 
+    /**
+     * Check Offer Status
+     * 
+     * Gets an offer by XUMM payload or row id, syncing it with XUMM and the ledger
+     * 
+     * @param request - payload_id or offer_id of the offer
+     * @returns Promise<CheckOfferStatusResponse>
+     */
+    async checkOfferStatus(request: CheckOfferStatusRequest): Promise<ApiResponse<CheckOfferStatusResponse>> {
+        try {
+            const response: AxiosResponse<CheckOfferStatusResponse> = await this.client.post(
+                '/check-offer-status',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Buy Now
+     * 
+     * Creates a XUMM payload for the signed-in wallet to buy a listing: a matching
+     * buy offer to the broker for broker-mode listings, otherwise an accept of the listing
+     * 
+     * @param request - Sell offer row to buy
+     * @returns Promise<BuyNowResponse>
+     */
+    async buyNow(request: BuyNowRequest): Promise<ApiResponse<BuyNowResponse>> {
+        try {
+            const response: AxiosResponse<BuyNowResponse> = await this.client.post(
+                '/buy-now',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Accept Bid
+     * 
+     * Creates a XUMM payload for the token owner to sell into a buy offer: a matching
+     * sell offer to the broker for broker-mode bids, otherwise an accept of the bid
+     * 
+     * @param request - Buy offer row to accept
+     * @returns Promise<AcceptBidResponse>
+     */
+    async acceptBid(request: AcceptBidRequest): Promise<ApiResponse<AcceptBidResponse>> {
+        try {
+            const response: AxiosResponse<AcceptBidResponse> = await this.client.post(
+                '/accept-bid',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Cancel Offer
+     * 
+     * Withdraws one offer, or all of the caller's offers for a token
+     * 
+     * @param request - Offer id or token id to cancel
+     * @returns Promise<CancelOfferResponse>
+     */
+    async cancelOffer(request: CancelOfferRequest): Promise<ApiResponse<CancelOfferResponse>> {
+        try {
+            const response: AxiosResponse<CancelOfferResponse> = await this.client.post(
+                '/cancel-offer',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Trust Lines
+     * 
+     * Checks whether the signed-in wallet trusts an issued currency and, if not,
+     * creates a XUMM TrustSet payload so an IOU-priced listing can be bought
+     * 
+     * @param request - Listing or currency/issuer to check
+     * @returns Promise<TrustLinesResponse>
+     */
+    async trustLines(request: TrustLinesRequest): Promise<ApiResponse<TrustLinesResponse>> {
+        try {
+            const response: AxiosResponse<TrustLinesResponse> = await this.client.post(
+                '/trustlines',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
     /**
      * XUMM Sign-in - Create sign-in request
      * 
@@ -121,6 +268,141 @@ export class RwaMarketplaceClient {
         }
     }
 
+    /**
+     * Escrow Create
+     * 
+     * Creates a XUMM EscrowCreate payload that locks the buyer's XRP until the NFT is delivered
+     * 
+     * @param request - Token, amount and escrow times
+     * @returns Promise<EscrowCreateResponse>
+     */
+    async escrowCreate(request: EscrowCreateRequest): Promise<ApiResponse<EscrowCreateResponse>> {
+        try {
+            const response: AxiosResponse<EscrowCreateResponse> = await this.client.post(
+                '/escrow-create',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Escrow Status
+     * 
+     * Gets an escrow of the signed-in wallet, syncing a pending one with XUMM and the ledger
+     * 
+     * @param escrowId - Escrow ID returned by escrowCreate
+     * @returns Promise<EscrowStatusResponse>
+     */
+    async getEscrowStatus(escrowId: string): Promise<ApiResponse<EscrowStatusResponse>> {
+        try {
+            const response: AxiosResponse<EscrowStatusResponse> = await this.client.get(
+                `/escrow-status?escrow_id=${escrowId}`
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Upload Asset Media
+     * 
+     * Uploads an image or PDF (max 10 MB) and returns its stable, content-addressed URL
+     * 
+     * @param file - File or Blob to upload
+     * @param filename - Name sent with the file; defaults to the File's own name
+     * @returns Promise<UploadAssetMediaResponse>
+     */
+    async uploadAssetMedia(file: Blob, filename?: string): Promise<ApiResponse<UploadAssetMediaResponse>> {
+        try {
+            const form = new FormData();
+            form.append('file', file, filename ?? (file as File).name ?? 'upload');
+
+            const response: AxiosResponse<UploadAssetMediaResponse> = await this.client.post(
+                '/upload-asset-media',
+                form,
+                { headers: { 'Content-Type': 'multipart/form-data' } }
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Verify Document
+     * 
+     * Checks whether a file matches one of the documents an NFT committed to at mint time
+     * 
+     * @param nftTokenId - NFTokenID to check against
+     * @param file - The document to verify
+     * @returns Promise<VerifyDocumentResponse>
+     */
+    async verifyDocument(nftTokenId: string, file: Blob): Promise<ApiResponse<VerifyDocumentResponse>> {
+        try {
+            const form = new FormData();
+            form.append('nft_token_id', nftTokenId);
+            form.append('file', file, (file as File).name ?? 'document');
+
+            const response: AxiosResponse<VerifyDocumentResponse> = await this.client.post(
+                '/verify-document',
+                form,
+                { headers: { 'Content-Type': 'multipart/form-data' } }
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
+    /**
+     * Attest NFT
+     * 
+     * Records a verifier's signed review of a token's asset; requires a verifier session
+     * 
+     * @param request - Decision, notes and the signature of the token's metadata hash
+     * @returns Promise<AttestNftResponse>
+     */
+    async attestNft(request: AttestNftRequest): Promise<ApiResponse<AttestNftResponse>> {
+        try {
+            const response: AxiosResponse<AttestNftResponse> = await this.client.post(
+                '/attest-nft',
+                request
+            );
+
+            return {
+                data: response.data,
+                status: response.status,
+                statusText: response.statusText,
+            };
+        } catch (error) {
+            throw error as ApiError;
+        }
+    }
+
     /**
      * XUMM Sign-in Status - Check payload status and get user token
      * 
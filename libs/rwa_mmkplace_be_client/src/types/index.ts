@@ -2,7 +2,43 @@
 export interface CreateNftRequest {
     name: string;
     image_url: string;
-    metadata?: Record<string, unknown>;
+    metadata?: Record<string, unknown>; // validated against the backend's RWA metadata schema
+    transfer_fee?: number; // creator royalty in 1/100000 units (0 - 50000, 2500 = 2.5%)
+    flags?: NftMintFlags; // transferable defaults to true, the others to false
+    taxon?: number; // collection taxon (0 - 4294967295), defaults to 0
+    documents?: DocumentAttachment[]; // legal documents uploaded with uploadAssetMedia
+}
+
+export type DocumentType =
+    | 'title_deed'
+    | 'certificate_of_authenticity'
+    | 'custody_agreement'
+    | 'appraisal'
+    | 'insurance'
+    | 'other';
+
+// A document uploaded with uploadAssetMedia, referenced by its hash
+export interface DocumentAttachment {
+    hash: string;
+    type: DocumentType;
+    name?: string;
+}
+
+// Document entry committed to in the token metadata
+export interface NftDocument {
+    type: DocumentType;
+    name?: string;
+    sha256: string;
+    url: string;
+    content_type: MediaContentType;
+    size: number;
+}
+
+// NFTokenMint flags: tfBurnable, tfOnlyXRP, tfTransferable
+export interface NftMintFlags {
+    burnable?: boolean;
+    only_xrp?: boolean;
+    transferable?: boolean;
 }
 
 export interface OfferAcceptance {
@@ -22,6 +58,12 @@ export interface CreateNftResponse {
     mint_explorer_link?: string;
     network?: string;
     minter_address?: string;
+    transfer_fee?: number;
+    flags?: Required<NftMintFlags>;
+    taxon?: number;
+    metadata_uri?: string; // hash://sha256/<hash> or a get-metadata URL
+    metadata_hash?: string; // SHA-256 of the metadata JSON
+    documents?: NftDocument[];
 
     // Give to creator related (sell offer with 0)
     // for transfer nft to creator
@@ -36,13 +78,26 @@ export interface CreateNftResponse {
     // human readable message or error
     message?: string;
     error?: string;
+    // metadata validation failures (400), e.g. "metadata.properties.weight"
+    missing_fields?: string[];
+    invalid_fields?: { field: string; message: string }[];
 }
 
 // Create Offer Types
+// Price in an issued currency (IOU), e.g. RLUSD or a USD stablecoin
+export interface IssuedAmount {
+    currency: string; // 3-character code or 40-char hex
+    issuer: string;
+    value: string; // decimal string, e.g. "125.50"
+}
+
 export interface CreateOfferRequest {
     nft_token_id: string;
     type: "sell" | "buy";
-    amount?: number; // optional, defaults to "0" (in drops)
+    amount?: number | IssuedAmount; // drops (defaults to 0) or an IOU price; IOUs need a trust line
+    // on-ledger expiry: ISO 8601 time or seconds from now (at most one, > 10 minutes away)
+    expires_at?: string;
+    expires_in?: number;
 }
 
 export interface CreateOfferResponse {
@@ -52,12 +107,274 @@ export interface CreateOfferResponse {
     deep_link?: string;
     qr_code?: string;
     pushed?: boolean;
+    offer_expires_at?: string;
     // human readable message or error
     message?: string;
     error?: string;
 }
 
 
+// Check Offer Status Types
+export interface CheckOfferStatusRequest {
+    payload_id?: string; // XUMM payload of the offer...
+    offer_id?: string; // ...or its nft_offers row
+}
+
+export interface OfferStatus {
+    id: string;
+    nft_token_id: string;
+    offer_type: 'sell' | 'buy' | 'accept' | 'cancel';
+    user_address: string;
+    amount: string;
+    status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled';
+    payload_id: string;
+    tx_hash?: string;
+    offer_index?: string;
+    created_at: string;
+    updated_at: string;
+    signed_at?: string;
+    completed_at?: string;
+    settlement_tx_hash?: string; // set once a sell or buy offer has been brokered
+    settled_at?: string;
+    error_message?: string;
+}
+
+export interface CheckOfferStatusResponse {
+    success: boolean;
+    offer?: OfferStatus;
+    error?: string;
+}
+
+// Buy Now Types
+export interface BuyNowRequest {
+    offer_id: string; // id of the sell offer row (from list-sell)
+}
+
+export interface BuyNowResponse {
+    success: boolean;
+    purchase_id?: string;
+    // 'brokered': a buy offer to the broker wallet, settled against the listing;
+    // 'direct': an accept of the listing itself
+    settlement?: 'direct' | 'brokered';
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    nft_token_id?: string;
+    offer_index?: string;
+    amount?: string;
+    currency?: string;
+    issuer?: string;
+    // human readable message or error
+    message?: string;
+    error?: string;
+}
+
+// Accept Bid Types
+export interface AcceptBidRequest {
+    offer_id: string; // id of the buy offer row to accept
+}
+
+export interface AcceptBidResponse {
+    success: boolean;
+    acceptance_id?: string;
+    // 'brokered': a sell offer to the broker wallet, settled against the bid;
+    // 'direct': an accept of the bid itself
+    settlement?: 'direct' | 'brokered';
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    nft_token_id?: string;
+    offer_index?: string;
+    amount?: string;
+    currency?: string;
+    issuer?: string;
+    bidder_address?: string;
+    // human readable message or error
+    message?: string;
+    error?: string;
+}
+
+// Cancel Offer Types
+export interface CancelOfferRequest {
+    offer_id?: string; // cancel a single offer...
+    nft_token_id?: string; // ...or all of your open offers for this token
+}
+
+export interface CancelOfferResponse {
+    success: boolean;
+    // Offers removed right away by the backend (broker) wallet
+    cancelled_offer_ids?: string[];
+    cancel_tx_hash?: string;
+    // Offers waiting for the XUMM payload below to be signed
+    pending_offer_ids?: string[];
+    cancel_request_id?: string;
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    skipped_offer_ids?: string[];
+    // human readable message or error
+    message?: string;
+    error?: string;
+}
+
+// Escrow Types
+export interface EscrowCreateRequest {
+    nft_token_id: string;
+    amount: number | string; // drops locked until the NFT is delivered
+    // deadline after which the escrow is returned: ISO 8601 time or seconds from now (at most one)
+    cancel_after?: string;
+    cancel_in?: number;
+    finish_after?: string; // ISO 8601; required when use_condition is false
+    use_condition?: boolean; // default true: only the backend can release the funds
+}
+
+export interface EscrowCreateResponse {
+    success: boolean;
+    escrow_id?: string;
+    nft_token_id?: string;
+    seller_address?: string;
+    amount?: string;
+    condition?: string;
+    finish_after?: string;
+    cancel_after?: string;
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    // human readable message or error
+    message?: string;
+    error?: string;
+}
+
+export type EscrowStatus = 'pending' | 'rejected' | 'expired' | 'created' | 'finished' | 'cancelled' | 'failed';
+
+export interface Escrow {
+    id: string;
+    nft_token_id: string;
+    buyer_address: string;
+    seller_address: string;
+    amount: string;
+    condition?: string;
+    finish_after?: string;
+    cancel_after: string;
+    status: EscrowStatus;
+    payload_id: string;
+    create_tx_hash?: string;
+    offer_sequence?: number;
+    finish_tx_hash?: string;
+    cancel_tx_hash?: string;
+    finished_at?: string;
+    cancelled_at?: string;
+    error_message?: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface EscrowStatusResponse {
+    success: boolean;
+    escrow?: Escrow;
+    error?: string;
+}
+
+// Trust Line Types
+export interface TrustLinesRequest {
+    offer_id?: string; // sell offer row whose IOU price should be trusted...
+    currency?: string; // ...or a currency/issuer pair
+    issuer?: string;
+    limit?: string; // TrustSet limit; defaults to the backend's DEFAULT_TRUST_LIMIT
+}
+
+export interface TrustLine {
+    account: string;
+    currency: string;
+    issuer: string;
+    balance: string;
+    limit: string;
+    frozen: boolean;
+}
+
+export interface TrustLinesResponse {
+    success: boolean;
+    trusted?: boolean; // false means the TrustSet payload below must be signed first
+    trust_line?: TrustLine | null;
+    sufficient_balance?: boolean; // offer_id only
+    currency?: string;
+    issuer?: string;
+    amount?: string;
+    // TrustSet payload details for XUMM signing
+    limit?: string;
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    // human readable message or error
+    message?: string;
+    error?: string;
+}
+
+// Asset Media Types
+export type MediaContentType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp' | 'application/pdf';
+
+export interface UploadAssetMediaResponse {
+    success: boolean;
+    hash?: string; // SHA-256 of the file
+    url?: string; // stable public URL, pass to createNft as image_url
+    thumbnail_url?: string; // 400x400 copy, images only
+    content_type?: MediaContentType;
+    size?: number;
+    existing?: boolean; // the same file had already been uploaded
+    error?: string;
+}
+
+// Document Verification Types
+export interface VerifyDocumentResponse {
+    success: boolean;
+    nft_token_id?: string;
+    sha256?: string; // SHA-256 of the submitted file
+    matches?: boolean; // the token committed to this exact file at mint time
+    document?: NftDocument; // the committed entry that matched
+    committed_documents?: number;
+    metadata_uri?: string; // token URI as read from the ledger
+    metadata_hash?: string;
+    error?: string;
+}
+
+// Asset Verification Types
+export type VerificationStatus = 'unverified' | 'verified' | 'rejected';
+export type AttestationDecision = 'approved' | 'rejected';
+
+export interface AttestNftRequest {
+    nft_token_id: string;
+    decision: AttestationDecision;
+    notes?: string; // max 2000 characters
+    public_key: string; // verifier's public key, hex
+    signature: string; // signature of the token's metadata_hash with that key, hex
+}
+
+export interface Attestation {
+    id: string;
+    nft_token_id: string;
+    metadata_hash: string;
+    verifier_address: string;
+    decision: AttestationDecision;
+    notes?: string;
+    public_key: string;
+    signature: string;
+    attested_at: string;
+}
+
+export interface AttestNftResponse {
+    success: boolean;
+    attestation?: Attestation;
+    verification_status?: VerificationStatus; // token status after this attestation
+    error?: string;
+}
 
 export interface SignInResponse {
     success: boolean;
@@ -83,6 +400,7 @@ export interface SignInStatusResponse {
     expired?: boolean;
     cancelled?: boolean;
     jwt?: string;
+    role?: 'verifier'; // role carried by the session JWT
     error?: string;
     hex?: string;
 }
@@ -106,4 +424,5 @@ export interface ApiError {
     message: string;
     status?: number;
     code?: string;
+    data?: unknown; // error response body, e.g. CreateNftResponse with missing_fields
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+
+/**
+ * Buy Now Test Suite
+ *
+ * Exercises the full listing → purchase path against a running backend:
+ * the seller lists a token with create-offer, the buyer buys it with buy-now,
+ * and the test waits for the sale to settle on-ledger.
+ * Usage: npm run test:buy-now <seller> <buyer> --nft-token-id=ID [options]
+ */
+
+import { RwaMarketplaceClient } from '../src/client';
+import { OfferStatus } from '../src/types';
+import {
+    createAuthenticatedClient,
+    getToken,
+    sleep
+} from './test-utils';
+
+interface BuyNowTestConfig {
+    seller: string;
+    buyer: string;
+    nftTokenId?: string;
+    price: string;  // Price in XRP
+    maxAttempts: number;
+}
+
+/**
+ * Parse command line arguments for buy-now test
+ */
+function parseBuyNowArgs(): BuyNowTestConfig | null {
+    const args = process.argv.slice(2);
+
+    if (args.length < 2 || args[0] === '--help' || args[0] === '-h') {
+        displayBuyNowHelp();
+        return null;
+    }
+
+    const config: BuyNowTestConfig = { seller: args[0], buyer: args[1], price: '1', maxAttempts: 60 };
+
+    for (const arg of args.slice(2)) {
+        if (arg.startsWith('--nft-token-id=')) {
+            config.nftTokenId = arg.split('=')[1];
+        } else if (arg.startsWith('--price=')) {
+            config.price = arg.split('=')[1];
+        } else if (arg.startsWith('--max-attempts=')) {
+            config.maxAttempts = parseInt(arg.split('=')[1]);
+        }
+    }
+
+    if (!config.nftTokenId || !/^[0-9A-Fa-f]{64}$/.test(config.nftTokenId)) {
+        console.error('❌ --nft-token-id=<64-character hex> is required');
+        displayBuyNowHelp();
+        return null;
+    }
+
+    return config;
+}
+
+/**
+ * Display help for buy-now test
+ */
+function displayBuyNowHelp(): void {
+    console.log('\n🛒 Buy Now Test Suite - Help');
+    console.log('='.repeat(60));
+    console.log('');
+    console.log('Usage:');
+    console.log('  npm run test:buy-now <seller> <buyer> --nft-token-id=ID [options]');
+    console.log('');
+    console.log('Arguments:');
+    console.log('  seller                Username of the token owner (lists the token)');
+    console.log('  buyer                 Username of the buyer (a different wallet)');
+    console.log('');
+    console.log('Options:');
+    console.log('  --nft-token-id=ID     NFT Token ID owned by the seller (required)');
+    console.log('  --price=XRP           Listing price in XRP (default: 1)');
+    console.log('  --max-attempts=N      Status polls per step, 3 seconds apart (default: 60)');
+    console.log('  --help, -h            Show this help');
+    console.log('');
+    console.log('📋 Prerequisites:');
+    console.log('  - Both users signed in (npm run test:signin <username>)');
+    console.log('  - Both wallets sign their XUMM payloads while the test polls');
+    console.log('='.repeat(60));
+}
+
+/**
+ * Poll check-offer-status until `done` holds for the offer, or give up
+ */
+async function waitForOffer(
+    client: RwaMarketplaceClient,
+    request: { payload_id?: string; offer_id?: string },
+    done: (offer: OfferStatus) => boolean,
+    maxAttempts: number
+): Promise<OfferStatus | null> {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const response = await client.checkOfferStatus(request);
+        const offer = response.data.offer;
+        if (offer && done(offer)) return offer;
+        if (offer && ['rejected', 'expired', 'failed', 'cancelled'].includes(offer.status)) {
+            console.error(`❌ Offer ${offer.id} ended as ${offer.status}${offer.error_message ? `: ${offer.error_message}` : ''}`);
+            return null;
+        }
+        console.log(`   Waiting... (${attempt}/${maxAttempts}) status: ${offer?.status ?? 'unknown'}`);
+        await sleep(3000);
+    }
+    console.error('❌ Timed out waiting for the offer');
+    return null;
+}
+
+/**
+ * Run the create-offer → buy-now test
+ */
+async function runBuyNowTest(config: BuyNowTestConfig): Promise<boolean> {
+    console.log('\n🛒 Buy Now Test Suite');
+    console.log('='.repeat(50));
+
+    const sellerToken = getToken(config.seller);
+    const buyerToken = getToken(config.buyer);
+    if (!sellerToken || !buyerToken) {
+        console.error('💡 Please sign in both users first: npm run test:signin <username>');
+        return false;
+    }
+    if (sellerToken.walletAddress === buyerToken.walletAddress) {
+        console.error('❌ Seller and buyer must use different wallets');
+        return false;
+    }
+
+    const sellerClient = createAuthenticatedClient(config.seller);
+    const buyerClient = createAuthenticatedClient(config.buyer);
+    if (!sellerClient || !buyerClient) {
+        console.error('❌ Failed to create authenticated clients');
+        return false;
+    }
+
+    try {
+        // Step 1: the seller lists the token exactly as the frontend does
+        const amount = Math.floor(parseFloat(config.price) * 1000000);
+        console.log(`\n💰 Step 1: ${config.seller} lists ${config.nftTokenId} for ${config.price} XRP...`);
+        const listingResponse = await sellerClient.createOffer({
+            nft_token_id: config.nftTokenId!,
+            type: 'sell',
+            amount,
+        });
+        if (!listingResponse.data.success || !listingResponse.data.payload_id) {
+            console.error('❌ create-offer failed:', listingResponse.data.error || listingResponse.data.message);
+            return false;
+        }
+        console.log(`📱 Seller: sign ${listingResponse.data.deep_link}`);
+
+        const listing = await waitForOffer(
+            sellerClient,
+            { payload_id: listingResponse.data.payload_id },
+            (offer) => offer.status === 'completed' && !!offer.offer_index,
+            config.maxAttempts
+        );
+        if (!listing) return false;
+        console.log(`✅ Listing ${listing.id} is on-ledger as ${listing.offer_index}`);
+
+        // Step 2: the buyer buys the listing; a create-offer listing must not be rejected
+        console.log(`\n🛒 Step 2: ${config.buyer} buys listing ${listing.id}...`);
+        const purchaseResponse = await buyerClient.buyNow({ offer_id: listing.id });
+        if (!purchaseResponse.data.success || !purchaseResponse.data.payload_id) {
+            console.error(`❌ buy-now failed (${purchaseResponse.status}):`, purchaseResponse.data.error);
+            return false;
+        }
+        console.log(`📋 Settlement: ${purchaseResponse.data.settlement}, paying ${purchaseResponse.data.amount} drops`);
+        console.log(`📱 Buyer: sign ${purchaseResponse.data.deep_link}`);
+
+        const purchase = await waitForOffer(
+            buyerClient,
+            { payload_id: purchaseResponse.data.payload_id },
+            (offer) => offer.status === 'completed',
+            config.maxAttempts
+        );
+        if (!purchase) return false;
+        console.log(`✅ Purchase ${purchase.id} validated in ${purchase.tx_hash}`);
+
+        // Step 3: a brokered purchase is complete once settlement has paired it with the listing
+        if (purchaseResponse.data.settlement === 'brokered') {
+            console.log('\n🤝 Step 3: waiting for the broker to settle the pair...');
+            const settled = await waitForOffer(
+                sellerClient,
+                { offer_id: listing.id },
+                (offer) => !!offer.settlement_tx_hash,
+                config.maxAttempts
+            );
+            if (!settled) return false;
+            console.log(`✅ Settled in ${settled.settlement_tx_hash}`);
+        }
+
+        console.log('\n✅ Buy Now Test Completed Successfully!');
+        console.log('='.repeat(50));
+        return true;
+
+    } catch (error) {
+        console.error('❌ Buy now test failed:', JSON.stringify(error, null, 2));
+        return false;
+    }
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+    const config = parseBuyNowArgs();
+
+    if (!config) {
+        process.exit(1);
+    }
+
+    const success = await runBuyNowTest(config);
+
+    if (!success) {
+        console.error('\n❌ Buy now test failed');
+        process.exit(1);
+    }
+
+    console.log('\n🎉 Buy now test completed successfully!');
+}
+
+// Handle process termination
+process.on('SIGINT', () => {
+    console.log('\n\n👋 Buy now test interrupted');
+    process.exit(0);
+});
+
+// Run if executed directly
+if (require.main === module) {
+    main().catch(error => {
+        console.error('\n💥 Unexpected error:', error);
+        process.exit(1);
+    });
+}
+
+export { runBuyNowTest, parseBuyNowArgs };
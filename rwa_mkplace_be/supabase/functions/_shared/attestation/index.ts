@@ -0,0 +1,22 @@
+/**
+ * Attestation module exports
+ * Central export point for asset verification types, signature check, repository and service
+ */
+
+// Export all types
+export type {
+    AttestationDecision,
+    VerificationStatus,
+    AttestationRecord,
+    AttestInput,
+    AttestResult
+} from "./type.ts";
+
+// Export signature check
+export { validateAttestationSignature } from "./signature.ts";
+
+// Export repository class
+export { AttestationRepository } from "./repository.ts";
+
+// Export service class
+export { AttestationService } from "./service.ts";
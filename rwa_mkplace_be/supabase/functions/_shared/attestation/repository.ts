@@ -0,0 +1,53 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { AttestationRecord } from "./type.ts";
+
+/**
+ * Repository class for attestation database operations
+ * Handles all CRUD operations for the nft_attestations table
+ */
+export class AttestationRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Record an attestation
+     */
+    async create(attestation: Omit<AttestationRecord, 'id' | 'attested_at'>): Promise<AttestationRecord> {
+        const { data, error } = await this.supabase
+            .from('nft_attestations')
+            .insert([attestation])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating attestation:', error);
+            throw new Error(`Failed to create attestation: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find a token's attestations, newest first
+     */
+    async findByTokenId(nftTokenId: string): Promise<AttestationRecord[]> {
+        const { data, error } = await this.supabase
+            .from('nft_attestations')
+            .select('*')
+            .eq('nft_token_id', nftTokenId)
+            .order('attested_at', { ascending: false });
+
+        if (error) {
+            console.error('Error finding attestations:', error);
+            throw new Error(`Failed to find attestations: ${error.message}`);
+        }
+
+        return data || [];
+    }
+}
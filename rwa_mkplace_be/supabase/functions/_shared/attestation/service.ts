@@ -0,0 +1,58 @@
+import { AttestationRepository } from "./repository.ts";
+import { NFTCatalogRepository } from "../nftCatalog/index.ts";
+import type { NFTRecord } from "../nftCatalog/index.ts";
+import type { AttestInput, AttestResult, AttestationRecord, VerificationStatus } from "./type.ts";
+
+/**
+ * Service class for asset verification.
+ *
+ * A verifier reviews the asset behind a catalogue token and signs the token's
+ * metadata hash with their wallet key. Each attestation is kept, and the
+ * latest one sets the token's verification_status: approved -> verified,
+ * rejected -> rejected. Because the metadata hash is the token URI, an
+ * attestation covers exactly the metadata (and anchored documents) the
+ * token committed to at mint.
+ */
+export class AttestationService {
+    private repository: AttestationRepository;
+    private catalog: NFTCatalogRepository;
+
+    constructor() {
+        this.repository = new AttestationRepository();
+        this.catalog = new NFTCatalogRepository();
+    }
+
+    /**
+     * Record an attestation for a token (signature already checked by the
+     * caller) and update its verification status
+     */
+    async attest(nft: NFTRecord, input: AttestInput): Promise<AttestResult> {
+        try {
+            const attestation = await this.repository.create({
+                nft_token_id: nft.nft_token_id,
+                metadata_hash: nft.metadata_hash!,
+                verifier_address: input.verifier_address,
+                decision: input.decision,
+                notes: input.notes,
+                public_key: input.public_key,
+                signature: input.signature,
+            });
+
+            const verification_status: VerificationStatus = input.decision === 'approved' ? 'verified' : 'rejected';
+            await this.catalog.updateByTokenId(nft.nft_token_id, {
+                verification_status,
+                verified_at: attestation.attested_at,
+                verified_by: input.verifier_address,
+            });
+
+            return { attestation, verification_status };
+        } catch (error) {
+            console.error('Failed to record attestation:', error);
+            throw new Error(`Service: Failed to record attestation - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async getAttestations(nftTokenId: string): Promise<AttestationRecord[]> {
+        return await this.repository.findByTokenId(nftTokenId);
+    }
+}
@@ -0,0 +1,36 @@
+import { deriveAddress, verifyKeypairSignature } from "npm:xrpl@4.4.0";
+
+// secp256k1 (33-byte compressed) or ed25519 ("ED" + 32 bytes) public keys
+const PUBLIC_KEY_PATTERN = /^(0[23][0-9A-Fa-f]{64}|[Ee][Dd][0-9A-Fa-f]{64})$/;
+
+/**
+ * Check that `signature` is `publicKey`'s signature of the metadata hash and
+ * that the key belongs to `verifierAddress`. The message is the hash's 32
+ * bytes, as signed by ripple-keypairs `sign(metadataHash, privateKey)`.
+ * Returns an error message, or null when the signature is valid.
+ */
+export function validateAttestationSignature(
+    metadataHash: string,
+    verifierAddress: string,
+    publicKey: string,
+    signature: string,
+): string | null {
+    if (!PUBLIC_KEY_PATTERN.test(publicKey)) {
+        return "public_key must be a hex secp256k1 or ed25519 public key";
+    }
+    if (!/^[0-9A-Fa-f]+$/.test(signature)) {
+        return "signature must be hex";
+    }
+    if (deriveAddress(publicKey) !== verifierAddress) {
+        return "public_key does not belong to the signed-in wallet";
+    }
+
+    try {
+        if (!verifyKeypairSignature(metadataHash, signature, publicKey)) {
+            return "signature does not match the token's metadata hash";
+        }
+    } catch (_err) {
+        return "signature is malformed";
+    }
+    return null;
+}
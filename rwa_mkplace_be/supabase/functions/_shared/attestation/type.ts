@@ -0,0 +1,38 @@
+/**
+ * Type definitions for asset attestations
+ * Contains the interfaces used by the nft_attestations repository and service
+ */
+
+// Verifier's verdict on the asset behind a token
+export type AttestationDecision = 'approved' | 'rejected';
+
+// Token status set by its latest attestation
+export type VerificationStatus = 'unverified' | 'verified' | 'rejected';
+
+export interface AttestationRecord {
+    id?: string;
+    nft_token_id: string;
+    // Metadata document the verifier reviewed and signed
+    metadata_hash: string;
+    verifier_address: string;
+    decision: AttestationDecision;
+    notes?: string;
+    // Verifier's public key (hex) and its signature of metadata_hash (hex)
+    public_key: string;
+    signature: string;
+    attested_at?: string;
+}
+
+export interface AttestInput {
+    nft_token_id: string;
+    verifier_address: string;
+    decision: AttestationDecision;
+    notes?: string;
+    public_key: string;
+    signature: string;
+}
+
+export interface AttestResult {
+    attestation: AttestationRecord;
+    verification_status: VerificationStatus;
+}
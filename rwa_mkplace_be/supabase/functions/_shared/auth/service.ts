@@ -1,4 +1,4 @@
-import type { JwtPayload, AuthServiceOptions } from './type.ts';
+import type { JwtPayload, AuthServiceOptions, UserRole } from './type.ts';
 import config from '../config/index.ts';
 
 /**
@@ -63,7 +63,8 @@ export class AuthService {
      * Create a session JWT for the given wallet address.
      *
      * The token is HS256-signed using `config.JWT_SECRET` and includes
-     * `sub`, `iat`, `exp` claims. Optionally includes `push_token` when provided.
+     * `sub`, `iat`, `exp` claims. Optionally includes `push_token` when provided,
+     * and `role` when the wallet has one (see `roleFor`).
      * @param walletAddress - wallet address to place in `sub` claim
      * @param ttlSeconds - optional TTL override in seconds
      * @param pushToken - optional push token to embed in payload
@@ -82,6 +83,10 @@ export class AuthService {
         if (pushToken) {
             payload.push_token = pushToken;
         }
+        const role = roleFor(walletAddress);
+        if (role) {
+            payload.role = role;
+        }
         const headerB64 = this.encodeJson(header);
         const payloadB64 = this.encodeJson(payload);
         const signingInput = `${headerB64}.${payloadB64}`;
@@ -119,3 +124,19 @@ export class AuthService {
         }
     }
 }
+
+/**
+ * Role granted to a wallet at sign-in: `verifier` for wallets listed in
+ * `config.VERIFIER_ADDRESSES`, otherwise none.
+ */
+export function roleFor(walletAddress: string): UserRole | undefined {
+    return config.VERIFIER_ADDRESSES.includes(walletAddress) ? 'verifier' : undefined;
+}
+
+/**
+ * Whether a session belongs to a verifier. The address is checked against
+ * the current config too, so removing it takes effect before the JWT expires.
+ */
+export function isVerifier(user: JwtPayload): boolean {
+    return user.role === 'verifier' && roleFor(user.sub) === 'verifier';
+}
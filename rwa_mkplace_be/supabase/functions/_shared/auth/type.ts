@@ -1,7 +1,12 @@
+// Roles granted to a wallet's session; verifiers review assets and attest them
+export type UserRole = 'verifier';
+
 export interface JwtPayload {
     sub: string;
     iat: number;
     exp: number;
+    // Set for wallets listed in VERIFIER_ADDRESSES at sign-in
+    role?: UserRole;
     // Optional additional claims (e.g., push token)
     push_token?: string;
     [key: string]: unknown;
@@ -2,24 +2,98 @@
 // Exposes common env vars and helpers for network URLs and explorers.
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 
+// XUMM signing flows that send the user back to the frontend afterwards
+export type XummFlow = "signIn" | "mint" | "createOffer" | "buyNow" | "acceptBid" | "cancelOffer" | "trustSet" | "escrowCreate";
+
+// Where XUMM sends the user after signing; `{id}` is replaced by XUMM with the payload UUID
+export type XummReturnUrl = { web?: string; app?: string };
+
 export type EnvConfig = {
     BACKEND_WALLET_SEED: string | undefined;
     BACKEND_WALLET_ADDRESS: string | undefined;
     NETWORK: string;
     XUMM_API_KEY: string | undefined;
     XUMM_API_SECRET: string | undefined;
+    // Max age (seconds) of X-Xumm-Request-Timestamp on webhook calls
+    XUMM_WEBHOOK_TOLERANCE: number;
+    // Expected XUMM webhook URL; XUMM only takes it from the app settings in the developer console
+    WEBHOOK_URL: string | undefined;
+    RETURN_URLS: Record<XummFlow, XummReturnUrl>;
+    // Ledger the indexer starts from on its first run; unset = current validated ledger
+    INDEXER_START_LEDGER: number | undefined;
+    // Seconds a signed-but-unsubmitted offer is kept before expire-offers expires it
+    SIGNED_OFFER_GRACE: number;
+    // Expired offers per expire-offers run above which it logs an alert
+    EXPIRY_ALERT_THRESHOLD: number;
+    // Default LimitAmount value for TrustSet payloads built by the trustlines function
+    DEFAULT_TRUST_LIMIT: string;
+    // Default time from escrow-create until an undelivered escrow can be cancelled, in seconds
+    ESCROW_DURATION: number;
+    // Marketplace commission in basis points, charged as NFTokenBrokerFee on brokered sales
+    MARKETPLACE_COMMISSION_BPS: number;
+    // URL prefix the metadata hash is appended to in NFToken URIs (e.g. the get-metadata
+    // function with `?hash=`); unset = `hash://sha256/<hash>` references
+    METADATA_BASE_URL: string | undefined;
+    // Storage bucket upload-asset-media stores files in
+    MEDIA_BUCKET: string;
+    // Largest file upload-asset-media accepts, in bytes
+    MEDIA_MAX_BYTES: number;
+    // Wallets whose session JWT carries the verifier role and may attest assets with attest-nft
+    VERIFIER_ADDRESSES: string[];
     JWT_SECRET: string | undefined;
     SESSION_TIMEOUT: number;
+    // Shared secret schedulers may send as x-cron-secret instead of the service role key
+    CRON_SECRET: string | undefined;
+};
+
+// Frontend page each flow returns to
+const RETURN_PATHS: Record<XummFlow, string> = {
+    signIn: "/",
+    mint: "/my-assets",
+    createOffer: "/my-assets",
+    buyNow: "/my-assets",
+    acceptBid: "/my-assets",
+    cancelOffer: "/my-assets",
+    trustSet: "/marketplace",
+    escrowCreate: "/my-assets",
 };
 
+// RETURN_URL_WEB is the frontend origin and RETURN_URL_APP the app deep link prefix
+function buildReturnUrls(): Record<XummFlow, XummReturnUrl> {
+    const web = Deno.env.get("RETURN_URL_WEB")?.replace(/\/+$/, "");
+    const app = Deno.env.get("RETURN_URL_APP")?.replace(/\/+$/, "");
+    const urls = {} as Record<XummFlow, XummReturnUrl>;
+    for (const [flow, path] of Object.entries(RETURN_PATHS) as [XummFlow, string][]) {
+        urls[flow] = {
+            web: web ? `${web}${path}?payload={id}` : undefined,
+            app: app ? `${app}${path}?payload={id}` : undefined,
+        };
+    }
+    return urls;
+}
+
 const cfg: EnvConfig = {
     BACKEND_WALLET_SEED: Deno.env.get("BACKEND_WALLET_SEED") ?? undefined,
     BACKEND_WALLET_ADDRESS: Deno.env.get("BACKEND_WALLET_ADDRESS") ?? undefined,
     NETWORK: Deno.env.get("NETWORK") ?? "testnet",
     XUMM_API_KEY: Deno.env.get("XUMM_API_KEY") ?? undefined,
     XUMM_API_SECRET: Deno.env.get("XUMM_API_SECRET") ?? undefined,
+    XUMM_WEBHOOK_TOLERANCE: Number(Deno.env.get("XUMM_WEBHOOK_TOLERANCE") ?? "300"),
+    WEBHOOK_URL: Deno.env.get("WEBHOOK_URL") ?? undefined,
+    RETURN_URLS: buildReturnUrls(),
+    INDEXER_START_LEDGER: Deno.env.get("INDEXER_START_LEDGER") ? Number(Deno.env.get("INDEXER_START_LEDGER")) : undefined,
+    SIGNED_OFFER_GRACE: Number(Deno.env.get("SIGNED_OFFER_GRACE") ?? "1800"),
+    EXPIRY_ALERT_THRESHOLD: Number(Deno.env.get("EXPIRY_ALERT_THRESHOLD") ?? "50"),
+    DEFAULT_TRUST_LIMIT: Deno.env.get("DEFAULT_TRUST_LIMIT") ?? "1000000",
+    ESCROW_DURATION: Number(Deno.env.get("ESCROW_DURATION") ?? "604800"),
+    MARKETPLACE_COMMISSION_BPS: Number(Deno.env.get("MARKETPLACE_COMMISSION_BPS") ?? "0"),
+    METADATA_BASE_URL: Deno.env.get("METADATA_BASE_URL") ?? undefined,
+    MEDIA_BUCKET: Deno.env.get("MEDIA_BUCKET") ?? "asset-media",
+    MEDIA_MAX_BYTES: Number(Deno.env.get("MEDIA_MAX_BYTES") ?? "10485760"),
+    VERIFIER_ADDRESSES: (Deno.env.get("VERIFIER_ADDRESSES") ?? "").split(",").map((a) => a.trim()).filter(Boolean),
     JWT_SECRET: Deno.env.get("JWT_SECRET") ?? undefined,
     SESSION_TIMEOUT: Number(Deno.env.get("SESSION_TIMEOUT") ?? "3600"),
+    CRON_SECRET: Deno.env.get("CRON_SECRET") ?? undefined,
 };
 
 export function getNetworkUrl(network = cfg.NETWORK) {
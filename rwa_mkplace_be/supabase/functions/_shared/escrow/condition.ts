@@ -0,0 +1,30 @@
+/**
+ * PREIMAGE-SHA-256 crypto-conditions for XRPL escrows.
+ *
+ * The fulfillment wraps a random 32-byte preimage and the condition wraps its
+ * SHA-256 digest, both DER-encoded as in the crypto-conditions draft that
+ * XRPL implements. EscrowFinish must carry the fulfillment matching the
+ * condition set by EscrowCreate.
+ */
+import type { CryptoCondition } from "./type.ts";
+
+const PREIMAGE_BYTES = 32;
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+/**
+ * Generate a fresh condition/fulfillment pair from a random preimage.
+ */
+export async function generateCondition(): Promise<CryptoCondition> {
+    const preimage = crypto.getRandomValues(new Uint8Array(PREIMAGE_BYTES));
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", preimage));
+
+    // A0 22 (fulfillment) / 80 20 (preimage, 32 bytes)
+    const fulfillment = new Uint8Array([0xa0, 0x22, 0x80, 0x20, ...preimage]);
+    // A0 25 (condition) / 80 20 (fingerprint) / 81 01 20 (cost = preimage length)
+    const condition = new Uint8Array([0xa0, 0x25, 0x80, 0x20, ...digest, 0x81, 0x01, PREIMAGE_BYTES]);
+
+    return { condition: toHex(condition), fulfillment: toHex(fulfillment) };
+}
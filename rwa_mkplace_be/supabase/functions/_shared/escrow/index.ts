@@ -0,0 +1,25 @@
+/**
+ * Escrow module exports
+ * Central export point for the escrows table types, repository and service
+ */
+
+// Export all types
+export type {
+    EscrowStatus,
+    EscrowData,
+    EscrowUpdate,
+    CreateEscrowInput,
+    CryptoCondition,
+    EscrowStatusResult,
+    EscrowRunItem,
+    EscrowRunResult
+} from "./type.ts";
+
+// Export crypto-condition helper
+export { generateCondition } from "./condition.ts";
+
+// Export repository class
+export { EscrowRepository } from "./repository.ts";
+
+// Export service class
+export { EscrowService } from "./service.ts";
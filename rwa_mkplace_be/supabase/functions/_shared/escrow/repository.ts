@@ -0,0 +1,138 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type {
+    EscrowData,
+    EscrowStatus,
+    EscrowUpdate,
+    CreateEscrowInput
+} from "./type.ts";
+
+/**
+ * Repository class for escrow database operations
+ * Handles all CRUD operations for the escrows table
+ */
+export class EscrowRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Create a new escrow in the database
+     */
+    async create(escrowData: CreateEscrowInput): Promise<EscrowData> {
+        const { data, error } = await this.supabase
+            .from('escrows')
+            .insert([{
+                nft_token_id: escrowData.nft_token_id,
+                buyer_address: escrowData.buyer_address,
+                seller_address: escrowData.seller_address,
+                amount: escrowData.amount,
+                condition: escrowData.condition,
+                fulfillment: escrowData.fulfillment,
+                finish_after: escrowData.finish_after,
+                cancel_after: escrowData.cancel_after,
+                payload_id: escrowData.payload_id,
+                deep_link: escrowData.deep_link,
+                qr_code: escrowData.qr_code,
+                pushed: escrowData.pushed || false,
+                status: 'pending'
+            }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating escrow:', error);
+            throw new Error(`Failed to create escrow: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find escrow by ID
+     */
+    async findById(id: string): Promise<EscrowData | null> {
+        const { data, error } = await this.supabase
+            .from('escrows')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return null; // No rows found
+            }
+            console.error('Error finding escrow by ID:', error);
+            throw new Error(`Failed to find escrow: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find escrow by payload ID
+     */
+    async findByPayloadId(payloadId: string): Promise<EscrowData | null> {
+        const { data, error } = await this.supabase
+            .from('escrows')
+            .select('*')
+            .eq('payload_id', payloadId)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return null; // No rows found
+            }
+            console.error('Error finding escrow by payload ID:', error);
+            throw new Error(`Failed to find escrow: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find escrows in any of the given statuses, oldest first
+     */
+    async findByStatus(statuses: EscrowStatus[]): Promise<EscrowData[]> {
+        const { data, error } = await this.supabase
+            .from('escrows')
+            .select('*')
+            .in('status', statuses)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error finding escrows by status:', error);
+            throw new Error(`Failed to find escrows: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Update an escrow only while it is still in the status it was read in,
+     * so two runs cannot both finish or cancel it
+     */
+    async transition(escrow: EscrowData, updates: EscrowUpdate): Promise<EscrowData> {
+        const { data, error } = await this.supabase
+            .from('escrows')
+            .update(updates)
+            .eq('id', escrow.id!)
+            .eq('status', escrow.status)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating escrow:', error);
+            throw new Error(`Failed to update escrow: ${error.message}`);
+        }
+        if (!data) {
+            throw new Error(`Failed to update escrow: ${escrow.id} is no longer ${escrow.status}`);
+        }
+
+        return data;
+    }
+}
@@ -0,0 +1,351 @@
+import type {
+    AccountNFTsRequest,
+    Client,
+    EscrowCancel,
+    EscrowCreate,
+    EscrowFinish,
+    TxRequest,
+    TxResponse,
+    Wallet
+} from "npm:xrpl@4.4.0";
+import { EscrowRepository } from "./repository.ts";
+import { generateCondition } from "./condition.ts";
+import { SalesRepository } from "../sales/repository.ts";
+import type {
+    CreateEscrowInput,
+    CryptoCondition,
+    EscrowData,
+    EscrowRunItem,
+    EscrowRunResult,
+    EscrowStatusResult,
+    EscrowUpdate
+} from "./type.ts";
+import type { WebhookPayload } from "../nftOffer/type.ts";
+import type XummService from "../xumm/index.ts";
+import type { XummPayloadStatus } from "../xumm/type.ts";
+
+// What XUMM reports about a payload, from a webhook or a status poll
+type PayloadOutcome = Pick<XummPayloadStatus, 'signed' | 'expired' | 'cancelled' | 'txid'>;
+
+/**
+ * Service class for escrowed purchases.
+ *
+ * The buyer locks XRP in an EscrowCreate (Destination = seller) signed through
+ * XUMM. Conditional escrows carry a PREIMAGE-SHA-256 condition whose
+ * fulfillment only the backend knows, so the funds move once the backend
+ * wallet submits EscrowFinish after seeing the NFT in the buyer's account
+ * without a separate sale to the buyer recorded since the escrow was created.
+ * Past `cancel_after` the backend wallet returns the funds with EscrowCancel.
+ * EscrowFinish and EscrowCancel can be submitted by any account, so the
+ * backend wallet only pays the fee.
+ */
+export class EscrowService {
+    private repository: EscrowRepository;
+    private sales: SalesRepository;
+
+    /**
+     * @param client Connected xrpl Client.
+     * @param backendWallet Wallet that submits EscrowFinish/EscrowCancel.
+     */
+    constructor(private client: Client, private backendWallet: Wallet) {
+        this.repository = new EscrowRepository();
+        this.sales = new SalesRepository();
+    }
+
+    /**
+     * Generate the crypto-condition for a new conditional escrow
+     */
+    generateCondition(): Promise<CryptoCondition> {
+        return generateCondition();
+    }
+
+    /**
+     * Record an escrow whose EscrowCreate payload was handed to the buyer
+     */
+    async createEscrow(input: CreateEscrowInput): Promise<EscrowData> {
+        try {
+            return await this.repository.create(input);
+        } catch (error) {
+            console.error('Failed to create escrow:', error);
+            throw new Error(`Service: Failed to create escrow - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async getEscrowById(id: string): Promise<EscrowData | null> {
+        return await this.repository.findById(id);
+    }
+
+    /**
+     * Apply a XUMM webhook to the escrow it belongs to.
+     * Returns null when the payload is not an escrow payload.
+     */
+    async processWebhookUpdate(webhookPayload: WebhookPayload): Promise<EscrowData | null> {
+        const escrow = await this.repository.findByPayloadId(webhookPayload.meta.uuid);
+        if (!escrow) return null;
+
+        const { escrow: updated } = await this.syncFromPayload(escrow, {
+            signed: webhookPayload.meta.signed,
+            expired: webhookPayload.meta.expired,
+            cancelled: webhookPayload.meta.cancelled,
+            txid: webhookPayload.payloadResponse?.txid,
+        });
+        return updated;
+    }
+
+    /**
+     * Poll XUMM for a pending escrow's payload and apply the outcome
+     */
+    async checkAndSyncStatus(escrow: EscrowData, xummService: XummService): Promise<EscrowStatusResult> {
+        if (escrow.status !== 'pending') return { escrow, updated: false };
+        // Once the txid is known the ledger is the only source that matters
+        if (escrow.create_tx_hash) return await this.confirmEscrowCreate(escrow, escrow.create_tx_hash);
+
+        const status = await xummService.getPayloadStatus(escrow.payload_id);
+        return await this.syncFromPayload(escrow, status);
+    }
+
+    /**
+     * Apply a XUMM payload outcome to a pending escrow: expired -> `expired`,
+     * cancelled -> `rejected`, signed with a txid -> verified on-ledger.
+     */
+    async syncFromPayload(escrow: EscrowData, outcome: PayloadOutcome): Promise<EscrowStatusResult> {
+        if (escrow.status !== 'pending') return { escrow, updated: false };
+
+        if (outcome.expired) {
+            return { escrow: await this.repository.transition(escrow, { status: 'expired' }), updated: true };
+        }
+        if (outcome.cancelled) {
+            return { escrow: await this.repository.transition(escrow, { status: 'rejected' }), updated: true };
+        }
+        if (outcome.signed && outcome.txid) {
+            return await this.confirmEscrowCreate(escrow, outcome.txid);
+        }
+        return { escrow, updated: false };
+    }
+
+    /**
+     * Look up the buyer's EscrowCreate. A validated `tesSUCCESS` moves the
+     * escrow to `created` with its Sequence as `offer_sequence`; any other
+     * validated result fails it. Unvalidated transactions only store the hash.
+     */
+    private async confirmEscrowCreate(escrow: EscrowData, txHash: string): Promise<EscrowStatusResult> {
+        const txRequest: TxRequest = { command: "tx", transaction: txHash };
+
+        let resp: TxResponse<EscrowCreate>;
+        try {
+            resp = await this.client.request(txRequest) as TxResponse<EscrowCreate>;
+        } catch (err) {
+            const code = (err as { data?: { error?: string } })?.data?.error;
+            if (code !== "txnNotFound") throw err;
+            return await this.storeTxHash(escrow, txHash);
+        }
+
+        const meta = resp.result.meta;
+        if (!resp.result.validated || !meta || typeof meta === "string") {
+            return await this.storeTxHash(escrow, txHash);
+        }
+
+        const tx = resp.result.tx_json;
+        const updates: EscrowUpdate = { create_tx_hash: txHash };
+        if (meta.TransactionResult !== "tesSUCCESS") {
+            updates.status = 'failed';
+            updates.error_message = `EscrowCreate failed on ledger: ${meta.TransactionResult}`;
+        } else if (tx.Account !== escrow.buyer_address || tx.Destination !== escrow.seller_address || tx.Amount !== escrow.amount) {
+            updates.status = 'failed';
+            updates.error_message = 'EscrowCreate does not match the escrow';
+        } else {
+            updates.status = 'created';
+            // Ticketed transactions have Sequence 0; the escrow is keyed by the ticket
+            updates.offer_sequence = tx.Sequence || tx.TicketSequence;
+            updates.created_on_ledger_at = new Date().toISOString();
+        }
+
+        const updated = await this.repository.transition(escrow, updates);
+        console.log(`Escrow ${updated.id} is ${updated.status} (EscrowCreate ${txHash})`);
+        return { escrow: updated, updated: true };
+    }
+
+    private async storeTxHash(escrow: EscrowData, txHash: string): Promise<EscrowStatusResult> {
+        if (escrow.create_tx_hash === txHash) return { escrow, updated: false };
+        return { escrow: await this.repository.transition(escrow, { create_tx_hash: txHash }), updated: true };
+    }
+
+    /**
+     * Confirm pending escrows whose payloads were signed while no webhook
+     * reached the backend. Returns how many moved out of pending.
+     */
+    async syncPending(xummService: XummService): Promise<number> {
+        let confirmed = 0;
+        for (const escrow of await this.repository.findByStatus(['pending'])) {
+            try {
+                const { escrow: updated } = await this.checkAndSyncStatus(escrow, xummService);
+                if (updated.status !== 'pending') confirmed++;
+            } catch (error) {
+                console.error(`Failed to sync escrow ${escrow.id}:`, error);
+            }
+        }
+        return confirmed;
+    }
+
+    /**
+     * Whether the seller has delivered the NFT: it is in the buyer's account
+     * and did not get there through a marketplace sale to the buyer recorded
+     * after the escrow was created, which the buyer already paid for.
+     */
+    async isDelivered(escrow: EscrowData): Promise<boolean> {
+        if (!await this.holdsToken(escrow.buyer_address, escrow.nft_token_id)) return false;
+
+        const { count } = await this.sales.findMany({
+            nft_token_id: escrow.nft_token_id,
+            wallet: escrow.buyer_address,
+            role: 'buyer',
+            sold_after: escrow.created_on_ledger_at ?? escrow.created_at,
+            limit: 1,
+        });
+        if (count > 0) {
+            console.warn(`Escrow ${escrow.id}: ${escrow.buyer_address} bought ${escrow.nft_token_id} in a separate sale, not releasing`);
+            return false;
+        }
+        return true;
+    }
+
+    // Whether `account` currently owns the token
+    private async holdsToken(account: string, nftTokenId: string): Promise<boolean> {
+        const request: AccountNFTsRequest = {
+            command: "account_nfts",
+            account,
+            ledger_index: "validated",
+        };
+        let marker: unknown;
+        do {
+            const resp = await this.client.request({ ...request, marker });
+            if (resp.result.account_nfts.some((nft) => nft.NFTokenID === nftTokenId)) return true;
+            marker = resp.result.marker;
+        } while (marker);
+        return false;
+    }
+
+    /**
+     * Finish every created escrow (or just `escrowId`) whose NFT has been
+     * delivered, as long as its deadline has not passed. With `xummService`
+     * pending escrows are synced first.
+     */
+    async finishDelivered(escrowId?: string, xummService?: XummService): Promise<EscrowRunResult> {
+        const { escrows, confirmed } = await this.candidates(escrowId, xummService);
+        const result: EscrowRunResult = { confirmed, processed: [], waiting: 0 };
+        const now = Date.now();
+
+        for (const escrow of escrows) {
+            const ready = Date.parse(escrow.cancel_after) > now &&
+                (!escrow.finish_after || Date.parse(escrow.finish_after) <= now);
+            if (!ready || !await this.isDelivered(escrow)) {
+                result.waiting++;
+                continue;
+            }
+            result.processed.push(await this.settle(escrow, 'finish'));
+        }
+
+        return result;
+    }
+
+    /**
+     * Cancel every created escrow (or just `escrowId`) past its `cancel_after`
+     * deadline, returning the XRP to the buyer. With `xummService` pending
+     * escrows are synced first.
+     */
+    async cancelExpired(escrowId?: string, xummService?: XummService): Promise<EscrowRunResult> {
+        const { escrows, confirmed } = await this.candidates(escrowId, xummService);
+        const result: EscrowRunResult = { confirmed, processed: [], waiting: 0 };
+        const now = Date.now();
+
+        for (const escrow of escrows) {
+            if (Date.parse(escrow.cancel_after) > now) {
+                result.waiting++;
+                continue;
+            }
+            result.processed.push(await this.settle(escrow, 'cancel'));
+        }
+
+        return result;
+    }
+
+    // Created escrows to act on, after syncing the pending ones when XUMM is available
+    private async candidates(escrowId?: string, xummService?: XummService): Promise<{ escrows: EscrowData[]; confirmed: number }> {
+        if (!escrowId) {
+            const confirmed = xummService ? await this.syncPending(xummService) : 0;
+            return { escrows: await this.repository.findByStatus(['created']), confirmed };
+        }
+
+        let escrow = await this.repository.findById(escrowId);
+        let confirmed = 0;
+        if (escrow?.status === 'pending' && xummService) {
+            escrow = (await this.checkAndSyncStatus(escrow, xummService)).escrow;
+            if (escrow.status !== 'pending') confirmed++;
+        }
+        return { escrows: escrow?.status === 'created' ? [escrow] : [], confirmed };
+    }
+
+    /**
+     * Submit EscrowFinish or EscrowCancel and record the outcome. Failures are
+     * reported on the item; the escrow stays `created` so a later run retries.
+     */
+    private async settle(escrow: EscrowData, action: 'finish' | 'cancel'): Promise<EscrowRunItem> {
+        try {
+            const txHash = action === 'finish' ? await this.submitFinish(escrow) : await this.submitCancel(escrow);
+            const now = new Date().toISOString();
+            const updated = await this.repository.transition(escrow, action === 'finish'
+                ? { status: 'finished', finish_tx_hash: txHash, finished_at: now }
+                : { status: 'cancelled', cancel_tx_hash: txHash, cancelled_at: now });
+            console.log(`Escrow ${escrow.id} ${updated.status} in tx ${txHash}`);
+            return { escrow_id: escrow.id!, nft_token_id: escrow.nft_token_id, status: updated.status, tx_hash: txHash };
+        } catch (error) {
+            console.error(`Failed to ${action} escrow ${escrow.id}:`, error);
+            return {
+                escrow_id: escrow.id!,
+                nft_token_id: escrow.nft_token_id,
+                status: escrow.status,
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    private async submitFinish(escrow: EscrowData): Promise<string> {
+        const finish: EscrowFinish = {
+            TransactionType: "EscrowFinish",
+            Account: this.backendWallet.address,
+            Owner: escrow.buyer_address,
+            OfferSequence: escrow.offer_sequence!,
+            ...(escrow.condition ? { Condition: escrow.condition, Fulfillment: escrow.fulfillment } : {}),
+        };
+        return await this.submit(finish, "Escrow finish");
+    }
+
+    private async submitCancel(escrow: EscrowData): Promise<string> {
+        const cancel: EscrowCancel = {
+            TransactionType: "EscrowCancel",
+            Account: this.backendWallet.address,
+            Owner: escrow.buyer_address,
+            OfferSequence: escrow.offer_sequence!,
+        };
+        return await this.submit(cancel, "Escrow cancel");
+    }
+
+    // Submit with the backend wallet and return the hash of a tesSUCCESS transaction
+    private async submit(tx: EscrowFinish | EscrowCancel, label: string): Promise<string> {
+        const response = await this.client.submitAndWait(tx, {
+            wallet: this.backendWallet,
+            autofill: true,
+        });
+
+        const txMeta = response?.result?.meta;
+        if (!txMeta) throw new Error(`No metadata returned from ${label.toLowerCase()} transaction`);
+        if (typeof txMeta === "string") throw new Error("Unexpected meta format: string");
+        if (txMeta.TransactionResult !== "tesSUCCESS") {
+            throw new Error(`${label} failed: ${txMeta.TransactionResult}`);
+        }
+
+        return response.result.hash;
+    }
+}
+
+export default EscrowService;
@@ -0,0 +1,96 @@
+/**
+ * Type definitions for the escrow system
+ * Contains the interfaces used by the escrows table repository and service
+ */
+
+// pending -> created (EscrowCreate validated) -> finished | cancelled;
+// pending can also end as rejected, expired (XUMM payload) or failed (ledger result)
+export type EscrowStatus = 'pending' | 'rejected' | 'expired' | 'created' | 'finished' | 'cancelled' | 'failed';
+
+export interface EscrowData {
+    id?: string;
+    nft_token_id: string;
+    // Escrow owner (EscrowCreate Account)
+    buyer_address: string;
+    // Escrow Destination, paid when the escrow is finished
+    seller_address: string;
+    // Drops
+    amount: string;
+    // PREIMAGE-SHA-256 condition and its fulfillment (hex); unset for time-based escrows
+    condition?: string;
+    fulfillment?: string;
+    finish_after?: string;
+    cancel_after: string;
+    payload_id: string;
+    payload_expires_at?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    status: EscrowStatus;
+    create_tx_hash?: string;
+    // Sequence of the EscrowCreate, the OfferSequence of EscrowFinish/EscrowCancel
+    offer_sequence?: number;
+    finish_tx_hash?: string;
+    cancel_tx_hash?: string;
+    created_on_ledger_at?: string;
+    finished_at?: string;
+    cancelled_at?: string;
+    error_message?: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface EscrowUpdate {
+    status?: EscrowStatus;
+    create_tx_hash?: string;
+    offer_sequence?: number;
+    finish_tx_hash?: string;
+    cancel_tx_hash?: string;
+    created_on_ledger_at?: string;
+    finished_at?: string;
+    cancelled_at?: string;
+    error_message?: string;
+}
+
+export interface CreateEscrowInput {
+    nft_token_id: string;
+    buyer_address: string;
+    seller_address: string;
+    amount: string;
+    condition?: string;
+    fulfillment?: string;
+    finish_after?: string;
+    cancel_after: string;
+    payload_id: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+}
+
+// Hex-encoded PREIMAGE-SHA-256 crypto-condition pair
+export interface CryptoCondition {
+    condition: string;
+    fulfillment: string;
+}
+
+export interface EscrowStatusResult {
+    escrow: EscrowData;
+    updated: boolean;
+}
+
+// One escrow handled by an escrow-finish or escrow-cancel run
+export interface EscrowRunItem {
+    escrow_id: string;
+    nft_token_id: string;
+    status: EscrowStatus;
+    tx_hash?: string;
+    error?: string;
+}
+
+export interface EscrowRunResult {
+    // Pending escrows whose EscrowCreate was confirmed during the run
+    confirmed: number;
+    processed: EscrowRunItem[];
+    // Created escrows left alone (not delivered yet / deadline not reached)
+    waiting: number;
+}
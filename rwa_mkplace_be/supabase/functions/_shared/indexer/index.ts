@@ -0,0 +1,22 @@
+/**
+ * Ledger indexer module exports
+ * Central export point for the indexer types, parser and worker
+ */
+
+// Export all types
+export type {
+    LedgerTransaction,
+    NftMintEvent,
+    NftTransferEvent,
+    NftCancelEvent,
+    NftBurnEvent,
+    NftLedgerEvent,
+    IndexerRunResult
+} from "./type.ts";
+
+// Export parser helpers
+export { parseNftTransaction, toLedgerTransaction } from "./parser.ts";
+
+// Export repository and worker classes
+export { LedgerCursorRepository } from "./repository.ts";
+export { LedgerIndexer } from "./service.ts";
@@ -0,0 +1,112 @@
+import type { Transaction, TransactionMetadata } from "npm:xrpl@4.4.0";
+import type { NFTokenMintMetadata } from "../nft/type.ts";
+import type { LedgerTransaction, NftLedgerEvent } from "./type.ts";
+
+// lsfSellNFToken on an NFTokenOffer ledger entry
+const LSF_SELL_NFTOKEN = 0x00000001;
+
+interface DeletedOffer {
+    index: string;
+    owner: string;
+    nftTokenId: string;
+    isSell: boolean;
+}
+
+function deletedOffers(meta: TransactionMetadata): DeletedOffer[] {
+    const offers: DeletedOffer[] = [];
+    for (const node of meta.AffectedNodes ?? []) {
+        if (!("DeletedNode" in node) || node.DeletedNode.LedgerEntryType !== "NFTokenOffer") continue;
+        const fields = node.DeletedNode.FinalFields ?? {};
+        offers.push({
+            index: node.DeletedNode.LedgerIndex,
+            owner: String(fields.Owner ?? ""),
+            nftTokenId: String(fields.NFTokenID ?? ""),
+            isSell: (Number(fields.Flags ?? 0) & LSF_SELL_NFTOKEN) !== 0,
+        });
+    }
+    return offers;
+}
+
+// Token URIs are hex-encoded: older create-nft mints hold the JSON itself, newer
+// ones a metadata store reference, which is returned as `{ uri }` for the indexer to resolve
+function decodeUri(uri?: string | null): Record<string, unknown> {
+    if (!uri) return {};
+    try {
+        const bytes = new Uint8Array(uri.match(/.{1,2}/g)!.map((b) => parseInt(b, 16)));
+        const text = new TextDecoder().decode(bytes);
+        try {
+            const parsed = JSON.parse(text);
+            return typeof parsed === "object" && parsed !== null ? parsed : { uri: text };
+        } catch {
+            return { uri: text };
+        }
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Turn a validated NFToken transaction into the event the indexer applies.
+ * Failed transactions and unrelated transaction types return null.
+ */
+export function parseNftTransaction({ tx, meta, hash, ledgerIndex }: LedgerTransaction): NftLedgerEvent | null {
+    if (meta.TransactionResult !== "tesSUCCESS") return null;
+
+    const base = { txHash: hash, ledgerIndex, account: tx.Account };
+    const deleted = deletedOffers(meta);
+    const nftokenId = (meta as unknown as NFTokenMintMetadata).nftoken_id;
+
+    switch (tx.TransactionType) {
+        case "NFTokenMint": {
+            if (!nftokenId) return null;
+            return {
+                ...base,
+                type: "mint",
+                nftTokenId: nftokenId,
+                issuer: tx.Issuer ?? tx.Account,
+                owner: tx.Account,
+                taxon: tx.NFTokenTaxon,
+                flags: typeof tx.Flags === "number" ? tx.Flags : 0,
+                transferFee: tx.TransferFee ?? 0,
+                metadata: decodeUri(tx.URI),
+            };
+        }
+        case "NFTokenAcceptOffer": {
+            // A buy offer's owner receives the token; with only a sell offer the acceptor does
+            const buy = deleted.find((o) => !o.isSell);
+            const tokenId = nftokenId ?? deleted[0]?.nftTokenId;
+            if (!tokenId) return null;
+            return {
+                ...base,
+                type: "transfer",
+                nftTokenId: tokenId,
+                newOwner: buy ? buy.owner : tx.Account,
+                deletedOfferIndexes: deleted.map((o) => o.index),
+            };
+        }
+        case "NFTokenCancelOffer":
+            return { ...base, type: "cancel", deletedOfferIndexes: deleted.map((o) => o.index) };
+        case "NFTokenBurn":
+            return { ...base, type: "burn", nftTokenId: tx.NFTokenID, deletedOfferIndexes: deleted.map((o) => o.index) };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Normalize an account_tx / nft_history entry; API v2 servers return
+ * `tx_json` + `hash`, v1 servers (and some Clio versions) a `tx` with the hash inside.
+ */
+export function toLedgerTransaction(entry: {
+    ledger_index: number;
+    meta: string | TransactionMetadata;
+    validated: boolean;
+    tx_json?: Transaction;
+    tx?: Transaction & { hash?: string };
+    hash?: string;
+}): LedgerTransaction | null {
+    const tx = entry.tx_json ?? entry.tx;
+    const hash = entry.hash ?? entry.tx?.hash;
+    if (!entry.validated || !tx || !hash || typeof entry.meta === "string") return null;
+    return { tx, meta: entry.meta, hash, ledgerIndex: entry.ledger_index };
+}
@@ -0,0 +1,48 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+/**
+ * Repository class for persisted ledger cursors
+ * Each worker stores the last ledger it fully processed in ledger_cursors
+ */
+export class LedgerCursorRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Get the last processed ledger for a cursor, null when it never ran
+     */
+    async get(name: string): Promise<number | null> {
+        const { data, error } = await this.supabase
+            .from('ledger_cursors')
+            .select('ledger_index')
+            .eq('name', name)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error reading ledger cursor:', error);
+            throw new Error(`Failed to read ledger cursor: ${error.message}`);
+        }
+
+        return data ? Number(data.ledger_index) : null;
+    }
+
+    /**
+     * Store the last processed ledger for a cursor
+     */
+    async set(name: string, ledgerIndex: number): Promise<void> {
+        const { error } = await this.supabase
+            .from('ledger_cursors')
+            .upsert({ name, ledger_index: ledgerIndex, updated_at: new Date().toISOString() });
+
+        if (error) {
+            console.error('Error saving ledger cursor:', error);
+            throw new Error(`Failed to save ledger cursor: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,248 @@
+import type { Client } from "npm:xrpl@4.4.0";
+import { LedgerCursorRepository } from "./repository.ts";
+import { parseNftTransaction, toLedgerTransaction } from "./parser.ts";
+import type {
+    IndexerRunResult,
+    LedgerTransaction,
+    NftLedgerEvent
+} from "./type.ts";
+import { NFTOfferRepository } from "../nftOffer/repository.ts";
+import type { TransitionContext } from "../nftOffer/type.ts";
+import { NFTCatalogRepository } from "../nftCatalog/repository.ts";
+import { MetadataService } from "../metadata/service.ts";
+import config from "../config/index.ts";
+
+const CURSOR_NAME = "nft-indexer";
+// Ledgers fetched and applied before the cursor is saved
+const CHUNK_LEDGERS = 1000;
+const PAGE_LIMIT = 200;
+
+/**
+ * Catch-up indexer that mirrors NFToken activity into `nfts` and `nft_offers`.
+ *
+ * Edge functions cannot keep a ledger subscription open, so each run reads
+ * every validated ledger since the persisted cursor: `account_tx` for the
+ * watched accounts (the backend wallet mints and brokers) and Clio
+ * `nft_history` for every tracked token, which catches transfers, cancels and
+ * burns done from other wallets. Transactions are applied in ledger order and
+ * the cursor moves forward after each chunk, so an interrupted run resumes
+ * where it stopped. Applying the same transaction twice is harmless.
+ */
+export class LedgerIndexer {
+    private cursors: LedgerCursorRepository;
+    private offers: NFTOfferRepository;
+    private catalog: NFTCatalogRepository;
+    private metadataStore: MetadataService;
+
+    /**
+     * @param client rippled client used for `account_tx`.
+     * @param clioClient Clio client used for `nft_history`; without it only
+     * the watched accounts are indexed.
+     * @param accounts Accounts whose transactions are always indexed.
+     * @param startLedger First ledger to read when no cursor exists yet;
+     * defaults to the current validated ledger.
+     */
+    constructor(
+        private client: Client,
+        private clioClient: Client | null,
+        private accounts: string[],
+        private startLedger?: number,
+    ) {
+        this.cursors = new LedgerCursorRepository();
+        this.offers = new NFTOfferRepository();
+        this.catalog = new NFTCatalogRepository();
+        this.metadataStore = new MetadataService();
+    }
+
+    /**
+     * Index validated ledgers from the cursor onwards, at most `maxLedgers`.
+     */
+    async run(maxLedgers = 10_000): Promise<IndexerRunResult> {
+        const result: IndexerRunResult = {
+            from_ledger: null,
+            to_ledger: null,
+            transactions: 0,
+            events: { mint: 0, transfer: 0, cancel: 0, burn: 0 },
+            nfts_updated: 0,
+            offers_updated: 0,
+        };
+
+        const validated = await this.client.getLedgerIndex();
+        const cursor = await this.cursors.get(CURSOR_NAME);
+        // Without a cursor, start at INDEXER_START_LEDGER or at the current ledger
+        const from = cursor !== null ? cursor + 1 : (this.startLedger ?? validated);
+        const to = Math.min(validated, from + maxLedgers - 1);
+        if (from > to) return result;
+
+        result.from_ledger = from;
+        result.to_ledger = to;
+
+        const trackedTokens = await this.trackedTokenIds();
+
+        for (let start = from; start <= to; start += CHUNK_LEDGERS) {
+            const end = Math.min(to, start + CHUNK_LEDGERS - 1);
+            const transactions = await this.fetchTransactions(start, end, trackedTokens);
+
+            for (const transaction of transactions) {
+                const event = parseNftTransaction(transaction);
+                if (!event) continue;
+                result.events[event.type]++;
+                await this.apply(event, result);
+                if (event.type === "mint") trackedTokens.add(event.nftTokenId);
+            }
+
+            result.transactions += transactions.length;
+            await this.cursors.set(CURSOR_NAME, end);
+        }
+
+        console.log(`Indexed ledgers ${from}..${to}: ${result.transactions} tx, ${result.offers_updated} offer(s), ${result.nfts_updated} nft(s) updated`);
+        return result;
+    }
+
+    // Tokens in the catalogue plus tokens with open offers
+    private async trackedTokenIds(): Promise<Set<string>> {
+        const tokens = new Set(await this.catalog.findActiveTokenIds());
+        for (const offer of await this.offers.findSettlementCandidates()) {
+            tokens.add(offer.nft_token_id);
+        }
+        return tokens;
+    }
+
+    /**
+     * Collect validated transactions in [min, max] for the watched accounts
+     * and tracked tokens, without duplicates and in ledger order.
+     */
+    private async fetchTransactions(min: number, max: number, tokens: Set<string>): Promise<LedgerTransaction[]> {
+        const byHash = new Map<string, LedgerTransaction>();
+
+        for (const account of this.accounts) {
+            let marker: unknown;
+            do {
+                const res = await this.client.request({
+                    command: "account_tx",
+                    account,
+                    ledger_index_min: min,
+                    ledger_index_max: max,
+                    forward: true,
+                    limit: PAGE_LIMIT,
+                    marker,
+                });
+                for (const entry of res.result.transactions) {
+                    const tx = toLedgerTransaction(entry);
+                    if (tx) byHash.set(tx.hash, tx);
+                }
+                marker = res.result.marker;
+            } while (marker);
+        }
+
+        if (this.clioClient) {
+            for (const nftId of tokens) {
+                let marker: unknown;
+                do {
+                    const res = await this.clioClient.request({
+                        command: "nft_history",
+                        nft_id: nftId,
+                        ledger_index_min: min,
+                        ledger_index_max: max,
+                        forward: true,
+                        limit: PAGE_LIMIT,
+                        marker,
+                    });
+                    for (const entry of res.result.transactions) {
+                        const tx = toLedgerTransaction(entry);
+                        if (tx) byHash.set(tx.hash, tx);
+                    }
+                    marker = res.result.marker;
+                } while (marker);
+            }
+        }
+
+        return [...byHash.values()].sort((a, b) =>
+            a.ledgerIndex - b.ledgerIndex || a.meta.TransactionIndex - b.meta.TransactionIndex
+        );
+    }
+
+    private async apply(event: NftLedgerEvent, result: IndexerRunResult): Promise<void> {
+        const context: TransitionContext = {
+            source: "cron",
+            actor: "ledger-indexer",
+            payload: { tx_hash: event.txHash, ledger_index: event.ledgerIndex, type: event.type, account: event.account },
+        };
+        const now = new Date().toISOString();
+
+        switch (event.type) {
+            case "mint": {
+                // Normally recorded by create-nft; backfills mints it failed to store
+                if (await this.catalog.findByTokenId(event.nftTokenId)) return;
+                const uri = typeof event.metadata.uri === "string" ? event.metadata.uri : undefined;
+                const stored = uri ? await this.metadataStore.resolve(uri) : null;
+                const metadata = stored?.metadata ?? event.metadata;
+                await this.catalog.create({
+                    nft_token_id: event.nftTokenId,
+                    issuer: event.issuer,
+                    owner_address: event.owner,
+                    taxon: event.taxon,
+                    flags: event.flags,
+                    transfer_fee: event.transferFee,
+                    name: typeof metadata.name === "string" ? metadata.name : undefined,
+                    image_url: typeof metadata.image === "string" ? metadata.image : undefined,
+                    category: typeof metadata.category === "string" ? metadata.category : undefined,
+                    metadata,
+                    metadata_uri: stored ? uri : undefined,
+                    metadata_hash: stored?.hash,
+                    mint_tx_hash: event.txHash,
+                    network: config.NETWORK,
+                });
+                result.nfts_updated++;
+                return;
+            }
+            case "transfer": {
+                const nft = await this.catalog.findByTokenId(event.nftTokenId);
+                if (nft && nft.owner_address !== event.newOwner) {
+                    await this.catalog.updateByTokenId(event.nftTokenId, { owner_address: event.newOwner });
+                    result.nfts_updated++;
+                }
+
+                const consumed = await this.offers.findOpenByOfferIndexes(event.deletedOfferIndexes);
+                for (const offer of consumed) {
+                    await this.offers.transition(offer, {
+                        status: "completed",
+                        completed_at: offer.completed_at ?? now,
+                        settlement_tx_hash: event.txHash,
+                        settled_at: now,
+                    }, context);
+                    result.offers_updated++;
+                }
+                if (consumed.length > 0 || nft) {
+                    result.offers_updated += await this.offers.retargetOpenBids(
+                        event.nftTokenId, event.newOwner, consumed.map((o) => o.id!), context);
+                }
+                return;
+            }
+            case "cancel": {
+                for (const offer of await this.offers.findOpenByOfferIndexes(event.deletedOfferIndexes)) {
+                    await this.offers.transition(offer, {
+                        status: "cancelled",
+                        cancel_tx_hash: event.txHash,
+                        cancelled_at: now,
+                    }, context);
+                    result.offers_updated++;
+                }
+                return;
+            }
+            case "burn": {
+                const nft = await this.catalog.findByTokenId(event.nftTokenId);
+                if (nft && !nft.burned_at) {
+                    await this.catalog.updateByTokenId(event.nftTokenId, { burned_at: now, burn_tx_hash: event.txHash });
+                    result.nfts_updated++;
+                }
+
+                for (const offer of await this.offers.findSettlementCandidates(event.nftTokenId)) {
+                    await this.offers.transition(offer, { status: "failed", error_message: "Token was burned" }, context);
+                    result.offers_updated++;
+                }
+                return;
+            }
+        }
+    }
+}
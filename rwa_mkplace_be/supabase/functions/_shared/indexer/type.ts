@@ -0,0 +1,64 @@
+/**
+ * Type definitions for the XRPL ledger indexer
+ * Contains the parsed ledger events and run results
+ */
+
+import type { Transaction, TransactionMetadata } from "npm:xrpl@4.4.0";
+
+// A validated transaction as returned by account_tx / nft_history
+export interface LedgerTransaction {
+    tx: Transaction;
+    meta: TransactionMetadata;
+    hash: string;
+    ledgerIndex: number;
+}
+
+interface NftLedgerEventBase {
+    txHash: string;
+    ledgerIndex: number;
+    // Account that submitted the transaction
+    account: string;
+}
+
+export interface NftMintEvent extends NftLedgerEventBase {
+    type: 'mint';
+    nftTokenId: string;
+    issuer: string;
+    owner: string;
+    taxon: number;
+    flags: number;
+    transferFee: number;
+    // Decoded token URI (JSON when it parses, otherwise `{ uri }`)
+    metadata: Record<string, unknown>;
+}
+
+export interface NftTransferEvent extends NftLedgerEventBase {
+    type: 'transfer';
+    nftTokenId: string;
+    newOwner: string;
+    // Offers consumed by the NFTokenAcceptOffer (sell and/or buy)
+    deletedOfferIndexes: string[];
+}
+
+export interface NftCancelEvent extends NftLedgerEventBase {
+    type: 'cancel';
+    deletedOfferIndexes: string[];
+}
+
+export interface NftBurnEvent extends NftLedgerEventBase {
+    type: 'burn';
+    nftTokenId: string;
+    deletedOfferIndexes: string[];
+}
+
+export type NftLedgerEvent = NftMintEvent | NftTransferEvent | NftCancelEvent | NftBurnEvent;
+
+export interface IndexerRunResult {
+    // Inclusive ledger range processed; null when already up to date
+    from_ledger: number | null;
+    to_ledger: number | null;
+    transactions: number;
+    events: Record<NftLedgerEvent['type'], number>;
+    nfts_updated: number;
+    offers_updated: number;
+}
@@ -0,0 +1,45 @@
+import type { MediaContentType } from "./type.ts";
+
+// Leading bytes ("magic numbers") of each accepted format; every part must match
+const SIGNATURES: { type: MediaContentType; parts: { offset: number; bytes: number[] }[] }[] = [
+    { type: "image/png", parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] }] },
+    { type: "image/jpeg", parts: [{ offset: 0, bytes: [0xFF, 0xD8, 0xFF] }] },
+    { type: "image/gif", parts: [{ offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }] }, // "GIF8"
+    {
+        type: "image/webp",
+        parts: [
+            { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] }, // "RIFF"
+            { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }, // "WEBP" after the RIFF chunk size
+        ],
+    },
+    { type: "application/pdf", parts: [{ offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2D] }] }, // "%PDF-"
+];
+
+// File extension used for stored objects
+export const MEDIA_EXTENSIONS: Record<MediaContentType, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+    "application/pdf": "pdf",
+};
+
+export const ACCEPTED_MEDIA_TYPES = Object.keys(MEDIA_EXTENSIONS) as MediaContentType[];
+
+/**
+ * Content type of a file from its leading bytes, or null when it is not one
+ * of the accepted formats. The declared type of an upload is not trusted.
+ */
+export function detectMediaType(bytes: Uint8Array): MediaContentType | null {
+    const match = SIGNATURES.find(({ parts }) =>
+        parts.every(({ offset, bytes: signature }) =>
+            bytes.length >= offset + signature.length &&
+            signature.every((b, i) => bytes[offset + i] === b)
+        )
+    );
+    return match?.type ?? null;
+}
+
+export function isImage(contentType: MediaContentType): boolean {
+    return contentType.startsWith("image/");
+}
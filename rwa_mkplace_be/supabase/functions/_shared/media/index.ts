@@ -0,0 +1,21 @@
+/**
+ * Asset media module exports
+ * Central export point for the asset_media types, content type detection, repository and service
+ */
+
+// Export all types
+export type {
+    MediaContentType,
+    MediaRecord,
+    UploadMediaInput,
+    UploadMediaResult
+} from "./type.ts";
+
+// Export content type helpers
+export { detectMediaType, isImage, MEDIA_EXTENSIONS, ACCEPTED_MEDIA_TYPES } from "./contentType.ts";
+
+// Export repository class
+export { MediaRepository } from "./repository.ts";
+
+// Export service class
+export { MediaService } from "./service.ts";
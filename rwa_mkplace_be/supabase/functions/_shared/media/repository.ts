@@ -0,0 +1,90 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { MediaContentType, MediaRecord } from "./type.ts";
+
+// Thumbnail size served through Storage image transformations
+const THUMBNAIL_SIZE = 400;
+
+/**
+ * Repository class for uploaded asset media
+ * Handles the asset_media table and the objects in the media bucket
+ */
+export class MediaRepository {
+    private supabase: SupabaseClient;
+
+    constructor(private bucket: string) {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Find a stored file by its hash
+     */
+    async findByHash(hash: string): Promise<MediaRecord | null> {
+        const { data, error } = await this.supabase
+            .from('asset_media')
+            .select('*')
+            .eq('hash', hash)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return null; // Not found
+            }
+            console.error('Error finding media:', error);
+            throw new Error(`Failed to find media: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Record a stored file; a row already recorded for the same hash is kept as is
+     */
+    async create(record: Omit<MediaRecord, 'created_at'>): Promise<void> {
+        const { error } = await this.supabase
+            .from('asset_media')
+            .upsert([record], { onConflict: 'hash', ignoreDuplicates: true });
+
+        if (error) {
+            console.error('Error creating media record:', error);
+            throw new Error(`Failed to create media record: ${error.message}`);
+        }
+    }
+
+    /**
+     * Upload a file to the bucket. An object already at `path` has the same
+     * bytes (paths are content hashes), so it is left in place.
+     */
+    async uploadObject(path: string, bytes: Uint8Array, contentType: MediaContentType): Promise<void> {
+        const { error } = await this.supabase.storage
+            .from(this.bucket)
+            .upload(path, bytes, {
+                contentType,
+                cacheControl: '31536000',
+                upsert: false,
+            });
+
+        if (error && !/already exists|Duplicate/i.test(error.message)) {
+            console.error('Error uploading media:', error);
+            throw new Error(`Failed to upload media: ${error.message}`);
+        }
+    }
+
+    /**
+     * Public URL of an object
+     */
+    publicUrl(path: string): string {
+        return this.supabase.storage.from(this.bucket).getPublicUrl(path).data.publicUrl;
+    }
+
+    /**
+     * Public URL of a resized copy of an image, rendered on demand by Storage
+     */
+    thumbnailUrl(path: string): string {
+        return this.supabase.storage.from(this.bucket).getPublicUrl(path, {
+            transform: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, resize: 'cover' },
+        }).data.publicUrl;
+    }
+}
@@ -0,0 +1,65 @@
+import { MediaRepository } from "./repository.ts";
+import { isImage, MEDIA_EXTENSIONS } from "./contentType.ts";
+import { sha256Hex } from "../metadata/uri.ts";
+import type { MediaRecord, UploadMediaInput, UploadMediaResult } from "./type.ts";
+import config from "../config/index.ts";
+
+/**
+ * Service class for asset images and documents.
+ *
+ * Files are stored in the media bucket under the SHA-256 of their bytes, so
+ * the returned URL is stable and can be written into token metadata: it
+ * always serves the file that was hashed. Uploading the same file again
+ * returns the existing URL. Image thumbnails are rendered by Storage image
+ * transformations rather than stored separately.
+ */
+export class MediaService {
+    private repository: MediaRepository;
+
+    constructor(bucket = config.MEDIA_BUCKET) {
+        this.repository = new MediaRepository(bucket);
+    }
+
+    /**
+     * Store a file (already validated by the caller) and return its URLs
+     */
+    async upload(input: UploadMediaInput): Promise<UploadMediaResult> {
+        const hash = await sha256Hex(input.bytes);
+
+        const existing = await this.repository.findByHash(hash);
+        if (existing) return this.toResult(existing, true);
+
+        const record: MediaRecord = {
+            hash,
+            path: `${hash}.${MEDIA_EXTENSIONS[input.content_type]}`,
+            content_type: input.content_type,
+            size: input.bytes.length,
+            original_name: input.original_name,
+            uploaded_by: input.uploaded_by,
+        };
+
+        await this.repository.uploadObject(record.path, input.bytes, record.content_type);
+        await this.repository.create(record);
+
+        return this.toResult(record, false);
+    }
+
+    /**
+     * Find a stored file by its hash
+     */
+    async getByHash(hash: string): Promise<UploadMediaResult | null> {
+        const record = await this.repository.findByHash(hash);
+        return record ? this.toResult(record, true) : null;
+    }
+
+    private toResult(record: MediaRecord, existing: boolean): UploadMediaResult {
+        return {
+            hash: record.hash,
+            url: this.repository.publicUrl(record.path),
+            thumbnail_url: isImage(record.content_type) ? this.repository.thumbnailUrl(record.path) : undefined,
+            content_type: record.content_type,
+            size: record.size,
+            existing,
+        };
+    }
+}
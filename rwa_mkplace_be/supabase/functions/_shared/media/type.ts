@@ -0,0 +1,38 @@
+/**
+ * Type definitions for uploaded asset media
+ * Contains the interfaces used by the asset_media table repository and service
+ */
+
+export type MediaContentType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp' | 'application/pdf';
+
+export interface MediaRecord {
+    // Lowercase hex SHA-256 of the file
+    hash: string;
+    // Object path in the media bucket
+    path: string;
+    content_type: MediaContentType;
+    size: number;
+    original_name?: string;
+    // Wallet that first uploaded the file
+    uploaded_by: string;
+    created_at?: string;
+}
+
+export interface UploadMediaInput {
+    bytes: Uint8Array;
+    content_type: MediaContentType;
+    original_name?: string;
+    uploaded_by: string;
+}
+
+export interface UploadMediaResult {
+    hash: string;
+    // Stable public URL of the original file
+    url: string;
+    // Resized image URL (Storage image transformations); absent for PDFs
+    thumbnail_url?: string;
+    content_type: MediaContentType;
+    size: number;
+    // true when the same file was already stored
+    existing: boolean;
+}
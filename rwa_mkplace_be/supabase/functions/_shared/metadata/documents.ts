@@ -0,0 +1,89 @@
+/**
+ * Legal documents anchored in token metadata.
+ *
+ * create-nft embeds each attached document's SHA-256 in the metadata
+ * document, whose own hash is the token URI, so the ledger commits to the
+ * exact files at mint time. verify-document recomputes a file's digest and
+ * looks it up in that list.
+ */
+
+export const DOCUMENT_TYPES = [
+    "title_deed",
+    "certificate_of_authenticity",
+    "custody_agreement",
+    "appraisal",
+    "insurance",
+    "other",
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+// At most this many documents per token
+export const MAX_DOCUMENTS = 10;
+
+// Attachment as given to create-nft: a file previously stored by upload-asset-media
+export interface DocumentAttachment {
+    hash: string;
+    type: DocumentType;
+    name?: string;
+}
+
+// Entry in the metadata `documents` list
+export interface MetadataDocument {
+    type: DocumentType;
+    name?: string;
+    sha256: string;
+    url: string;
+    content_type: string;
+    size: number;
+}
+
+export function isDocumentType(value: unknown): value is DocumentType {
+    return typeof value === "string" && (DOCUMENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check the `documents` of a create-nft request. Returns the attachments, or
+ * the offending fields when any entry is malformed.
+ */
+export function validateDocumentAttachments(input: unknown): {
+    attachments?: DocumentAttachment[];
+    invalid_fields: { field: string; message: string }[];
+} {
+    if (input === undefined) return { attachments: [], invalid_fields: [] };
+    if (!Array.isArray(input) || input.length > MAX_DOCUMENTS) {
+        return { invalid_fields: [{ field: "documents", message: `must be an array of at most ${MAX_DOCUMENTS} entries` }] };
+    }
+
+    const invalid: { field: string; message: string }[] = [];
+    input.forEach((entry, i) => {
+        const doc = entry as Record<string, unknown> | null;
+        if (typeof doc !== "object" || doc === null) {
+            invalid.push({ field: `documents[${i}]`, message: "must be { hash, type, name? }" });
+            return;
+        }
+        if (typeof doc.hash !== "string" || !/^[0-9a-f]{64}$/.test(doc.hash)) {
+            invalid.push({ field: `documents[${i}].hash`, message: "must be the SHA-256 returned by upload-asset-media" });
+        }
+        if (!isDocumentType(doc.type)) {
+            invalid.push({ field: `documents[${i}].type`, message: `must be one of ${DOCUMENT_TYPES.join(", ")}` });
+        }
+        if (doc.name !== undefined && typeof doc.name !== "string") {
+            invalid.push({ field: `documents[${i}].name`, message: "must be a string" });
+        }
+    });
+
+    return invalid.length > 0
+        ? { invalid_fields: invalid }
+        : { attachments: input as DocumentAttachment[], invalid_fields: [] };
+}
+
+/**
+ * Documents listed in a token's metadata; malformed entries are skipped
+ */
+export function metadataDocuments(metadata: Record<string, unknown>): MetadataDocument[] {
+    if (!Array.isArray(metadata.documents)) return [];
+    return metadata.documents.filter((d): d is MetadataDocument =>
+        typeof d === "object" && d !== null && typeof d.sha256 === "string" && isDocumentType(d.type)
+    );
+}
@@ -0,0 +1,35 @@
+/**
+ * Metadata store module exports
+ * Central export point for the nft_metadata types, URI helpers, metadata schema, documents, repository and service
+ */
+
+// Export all types
+export type {
+    MetadataRecord,
+    StoredMetadata,
+    ResolvedMetadata
+} from "./type.ts";
+
+// Export URI helpers
+export { MAX_URI_BYTES, isMetadataHash, sha256Hex, toMetadataUri, parseMetadataUri, encodeUri, decodeUri } from "./uri.ts";
+
+// Export schema validation
+export type { RwaMetadata, MetadataAttribute, MetadataFieldError, MetadataValidationResult, CategoryRequirement } from "./schema.ts";
+export {
+    METADATA_SCHEMA,
+    METADATA_NFT_TYPE,
+    CATEGORY_REQUIREMENTS,
+    categorySlug,
+    validateRwaMetadata,
+    describeMetadataErrors
+} from "./schema.ts";
+
+// Export document anchoring helpers
+export type { DocumentType, DocumentAttachment, MetadataDocument } from "./documents.ts";
+export { DOCUMENT_TYPES, MAX_DOCUMENTS, isDocumentType, metadataDocuments, validateDocumentAttachments } from "./documents.ts";
+
+// Export repository class
+export { MetadataRepository } from "./repository.ts";
+
+// Export service class
+export { MetadataService } from "./service.ts";
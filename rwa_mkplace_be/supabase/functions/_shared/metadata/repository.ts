@@ -0,0 +1,52 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { MetadataRecord } from "./type.ts";
+
+/**
+ * Repository class for the content-addressed metadata store
+ * Handles all database operations for the nft_metadata table
+ */
+export class MetadataRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Save a document; one already stored under the same hash is kept as is
+     */
+    async save(record: Omit<MetadataRecord, 'created_at'>): Promise<void> {
+        const { error } = await this.supabase
+            .from('nft_metadata')
+            .upsert([record], { onConflict: 'hash', ignoreDuplicates: true });
+
+        if (error) {
+            console.error('Error saving metadata:', error);
+            throw new Error(`Failed to save metadata: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find a document by its hash
+     */
+    async findByHash(hash: string): Promise<MetadataRecord | null> {
+        const { data, error } = await this.supabase
+            .from('nft_metadata')
+            .select('*')
+            .eq('hash', hash)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return null; // Not found
+            }
+            console.error('Error finding metadata:', error);
+            throw new Error(`Failed to find metadata: ${error.message}`);
+        }
+
+        return data;
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * Versioned RWA token metadata.
+ *
+ * The document is XLS-24 compatible (schema, nftType, name, description,
+ * image, collection, attributes) with RWA extensions: category, valuation,
+ * external_link and free-form `properties`. Categories can require
+ * properties; the requirements below are checked by create-nft before
+ * minting. Unknown top-level keys are kept as they are.
+ */
+
+import type { MetadataDocument } from "./documents.ts";
+
+export const METADATA_SCHEMA = "rwa-metadata/1";
+export const METADATA_NFT_TYPE = "rwa.v1";
+
+// Set by create-nft from the request; metadata may not supply them
+const RESERVED_KEYS = ["name", "image", "minted_on", "nftType", "documents"];
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+type PropertyCheck = (value: string) => string | null;
+
+export interface CategoryRequirement {
+    // Property key -> check returning an error message, or null when valid
+    properties: Record<string, PropertyCheck>;
+}
+
+const positiveNumber: PropertyCheck = (value) =>
+    /^\d+(\.\d+)?(\s*\S+)?$/.test(value.trim()) && parseFloat(value) > 0
+        ? null
+        : "must be a positive number, optionally followed by a unit (e.g. 1000 g)";
+
+const percentage: PropertyCheck = (value) => {
+    const n = parseFloat(value.replace("%", ""));
+    return /^\d+(\.\d+)?\s*%?$/.test(value.trim()) && n >= 0 && n <= 100
+        ? null
+        : "must be a percentage between 0 and 100";
+};
+
+const futureDate: PropertyCheck = (value) => {
+    const date = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) return "must be an ISO 8601 date (YYYY-MM-DD)";
+    return date.getTime() > Date.now() ? null : "must be in the future";
+};
+
+const nonEmpty: PropertyCheck = (value) => value.trim() ? null : "must not be empty";
+
+/**
+ * Required properties per category, keyed by category slug ("Commodities" -> "commodities")
+ */
+export const CATEGORY_REQUIREMENTS: Record<string, CategoryRequirement> = {
+    commodities: {
+        properties: {
+            weight: positiveNumber,
+            purity: percentage,
+            vault_location: nonEmpty,
+        },
+    },
+    credit: {
+        properties: {
+            maturity_date: futureDate,
+            yield: percentage,
+        },
+    },
+};
+
+export interface MetadataAttribute {
+    trait_type: string;
+    value: string | number;
+}
+
+export interface RwaMetadata {
+    schema: string;
+    nftType: string;
+    description?: string;
+    category?: string;
+    external_link?: string;
+    valuation?: number;
+    collection?: { name: string; family?: string };
+    attributes?: MetadataAttribute[];
+    properties?: Record<string, string>;
+    // Attached documents, anchored by SHA-256 (see documents.ts)
+    documents?: MetadataDocument[];
+    [key: string]: unknown;
+}
+
+export interface MetadataFieldError {
+    field: string;
+    message: string;
+}
+
+export interface MetadataValidationResult {
+    // Normalized document when there are no errors
+    metadata?: RwaMetadata;
+    missing_fields: string[];
+    invalid_fields: MetadataFieldError[];
+}
+
+export function categorySlug(category: string): string {
+    return category.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Validate request metadata against the schema and its category's
+ * requirements. On success the normalized document is returned: schema and
+ * nftType are stamped, property values are trimmed strings and XLS-24
+ * `attributes` are derived from `properties` when not given.
+ */
+export function validateRwaMetadata(input: unknown): MetadataValidationResult {
+    const missing: string[] = [];
+    const invalid: MetadataFieldError[] = [];
+
+    if (input === undefined || input === null) input = {};
+    if (typeof input !== "object" || Array.isArray(input)) {
+        return { missing_fields: [], invalid_fields: [{ field: "metadata", message: "must be an object" }] };
+    }
+    const raw = input as Record<string, unknown>;
+
+    for (const key of RESERVED_KEYS) {
+        if (key in raw) invalid.push({ field: `metadata.${key}`, message: "is set by create-nft and cannot be given" });
+    }
+
+    if (raw.schema !== undefined && raw.schema !== METADATA_SCHEMA) {
+        invalid.push({ field: "metadata.schema", message: `unsupported version; expected ${METADATA_SCHEMA}` });
+    }
+
+    if (raw.description !== undefined &&
+        (typeof raw.description !== "string" || raw.description.length > MAX_DESCRIPTION_LENGTH)) {
+        invalid.push({ field: "metadata.description", message: `must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+
+    // An empty category or link from a form is treated as absent
+    if (raw.category !== undefined && typeof raw.category !== "string") {
+        invalid.push({ field: "metadata.category", message: "must be a string" });
+    }
+
+    if (raw.external_link !== undefined && raw.external_link !== "" && !isHttpUrl(raw.external_link)) {
+        invalid.push({ field: "metadata.external_link", message: "must be an http(s) URL" });
+    }
+
+    if (raw.valuation !== undefined && raw.valuation !== null &&
+        (typeof raw.valuation !== "number" || !Number.isFinite(raw.valuation) || raw.valuation < 0)) {
+        invalid.push({ field: "metadata.valuation", message: "must be a non-negative number" });
+    }
+
+    if (raw.collection !== undefined) {
+        const collection = raw.collection as Record<string, unknown> | null;
+        if (typeof collection !== "object" || collection === null || typeof collection.name !== "string" ||
+            (collection.family !== undefined && typeof collection.family !== "string")) {
+            invalid.push({ field: "metadata.collection", message: "must be { name, family? } with string values" });
+        }
+    }
+
+    if (raw.attributes !== undefined && (!Array.isArray(raw.attributes) || !raw.attributes.every(isAttribute))) {
+        invalid.push({ field: "metadata.attributes", message: "must be an array of { trait_type, value }" });
+    }
+
+    const properties: Record<string, string> = {};
+    if (raw.properties !== undefined) {
+        if (typeof raw.properties !== "object" || raw.properties === null || Array.isArray(raw.properties)) {
+            invalid.push({ field: "metadata.properties", message: "must be an object of strings or numbers" });
+        } else {
+            for (const [key, value] of Object.entries(raw.properties)) {
+                if (typeof value === "string" || typeof value === "number") {
+                    properties[key] = String(value).trim();
+                } else {
+                    invalid.push({ field: `metadata.properties.${key}`, message: "must be a string or number" });
+                }
+            }
+        }
+    }
+
+    const category = typeof raw.category === "string" ? raw.category.trim() : undefined;
+    const requirement = category ? CATEGORY_REQUIREMENTS[categorySlug(category)] : undefined;
+    for (const [key, check] of Object.entries(requirement?.properties ?? {})) {
+        const field = `metadata.properties.${key}`;
+        if (!properties[key]) {
+            missing.push(field);
+            continue;
+        }
+        const message = check(properties[key]);
+        if (message) invalid.push({ field, message });
+    }
+
+    if (missing.length > 0 || invalid.length > 0) {
+        return { missing_fields: missing, invalid_fields: invalid };
+    }
+
+    const { category: _category, external_link, valuation, ...rest } = raw;
+    const metadata: RwaMetadata = {
+        ...rest,
+        schema: METADATA_SCHEMA,
+        nftType: METADATA_NFT_TYPE,
+        ...(category ? { category } : {}),
+        ...(external_link ? { external_link: external_link as string } : {}),
+        ...(typeof valuation === "number" ? { valuation } : {}),
+        ...(raw.properties !== undefined ? { properties } : {}),
+    };
+    if (!metadata.attributes && Object.keys(properties).length > 0) {
+        metadata.attributes = Object.entries(properties).map(([trait_type, value]) => ({ trait_type, value }));
+    }
+
+    return { metadata, missing_fields: [], invalid_fields: [] };
+}
+
+/**
+ * One-line summary of a failed validation for error responses
+ */
+export function describeMetadataErrors(result: MetadataValidationResult): string {
+    const parts: string[] = [];
+    if (result.missing_fields.length > 0) parts.push(`missing ${result.missing_fields.join(", ")}`);
+    for (const { field, message } of result.invalid_fields) parts.push(`${field} ${message}`);
+    return `Invalid metadata: ${parts.join("; ")}`;
+}
+
+function isHttpUrl(value: unknown): boolean {
+    if (typeof value !== "string") return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:";
+    } catch {
+        return false;
+    }
+}
+
+function isAttribute(value: unknown): value is MetadataAttribute {
+    const attribute = value as Record<string, unknown> | null;
+    return typeof attribute === "object" && attribute !== null &&
+        typeof attribute.trait_type === "string" &&
+        (typeof attribute.value === "string" || typeof attribute.value === "number");
+}
@@ -0,0 +1,58 @@
+import { MetadataRepository } from "./repository.ts";
+import { parseMetadataUri, sha256Hex, toMetadataUri } from "./uri.ts";
+import type { ResolvedMetadata, StoredMetadata } from "./type.ts";
+
+/**
+ * Service class for the content-addressed metadata store.
+ *
+ * Token metadata is serialized once, stored under the SHA-256 of those exact
+ * bytes and referenced from the NFToken URI, which keeps the URI far below the
+ * 256-byte limit whatever the metadata holds. Because the key is the hash,
+ * documents are immutable and anyone can verify what they fetched.
+ */
+export class MetadataService {
+    private repository: MetadataRepository;
+
+    constructor() {
+        this.repository = new MetadataRepository();
+    }
+
+    /**
+     * Store a metadata document and return its hash and URI
+     */
+    async store(metadata: Record<string, unknown>): Promise<StoredMetadata> {
+        const content = JSON.stringify(metadata);
+        const hash = await sha256Hex(content);
+        const size = new TextEncoder().encode(content).length;
+
+        await this.repository.save({ hash, content, size });
+
+        return { hash, uri: toMetadataUri(hash), size };
+    }
+
+    /**
+     * Read a document by hash. Returns null when it is not stored and throws
+     * when the stored content no longer matches its hash.
+     */
+    async get(hash: string): Promise<ResolvedMetadata | null> {
+        const record = await this.repository.findByHash(hash);
+        if (!record) return null;
+
+        const actual = await sha256Hex(record.content);
+        if (actual !== hash) {
+            console.error(`Metadata integrity check failed for ${hash}: content hashes to ${actual}`);
+            throw new Error(`MetadataService: Integrity check failed - ${hash}`);
+        }
+
+        return { hash, content: record.content, metadata: JSON.parse(record.content) };
+    }
+
+    /**
+     * Read the document a token URI references, or null when the URI is not a
+     * reference into this store or the document is missing
+     */
+    async resolve(uri: string): Promise<ResolvedMetadata | null> {
+        const hash = parseMetadataUri(uri);
+        return hash ? await this.get(hash) : null;
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * Type definitions for the content-addressed metadata store
+ * Contains the interfaces used by the nft_metadata table repository and service
+ */
+
+export interface MetadataRecord {
+    // Lowercase hex SHA-256 of content
+    hash: string;
+    // Exact JSON text that was hashed
+    content: string;
+    // Byte length of content
+    size: number;
+    created_at?: string;
+}
+
+// Result of storing a metadata document
+export interface StoredMetadata {
+    hash: string;
+    // Reference written into the NFToken URI
+    uri: string;
+    size: number;
+}
+
+// A metadata document read back from the store, after its hash was checked
+export interface ResolvedMetadata {
+    hash: string;
+    content: string;
+    metadata: Record<string, unknown>;
+}
@@ -0,0 +1,66 @@
+import config from "../config/index.ts";
+
+// NFToken URI field limit, in bytes
+export const MAX_URI_BYTES = 256;
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const HASH_URI_PREFIX = "hash://sha256/";
+
+export function isMetadataHash(value: unknown): value is string {
+    return typeof value === "string" && HASH_PATTERN.test(value);
+}
+
+/**
+ * Lowercase hex SHA-256 of a UTF-8 string or of raw bytes
+ */
+export async function sha256Hex(content: string | Uint8Array): Promise<string> {
+    const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+    return Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * URI referencing the document with `hash`: METADATA_BASE_URL followed by the
+ * hash when configured (a URL wallets can fetch), otherwise `hash://sha256/<hash>`.
+ */
+export function toMetadataUri(hash: string, baseUrl = config.METADATA_BASE_URL): string {
+    return baseUrl ? `${baseUrl}${hash}` : `${HASH_URI_PREFIX}${hash}`;
+}
+
+/**
+ * Hash referenced by a metadata URI, or null for anything else (inline JSON,
+ * IPFS links, URLs of other services).
+ */
+export function parseMetadataUri(uri: string, baseUrl = config.METADATA_BASE_URL): string | null {
+    let hash: string | null = null;
+    if (uri.startsWith(HASH_URI_PREFIX)) {
+        hash = uri.slice(HASH_URI_PREFIX.length);
+    } else if (baseUrl && uri.startsWith(baseUrl)) {
+        hash = uri.slice(baseUrl.length);
+    }
+    return isMetadataHash(hash) ? hash : null;
+}
+
+/**
+ * Hex-encode a URI for the NFTokenMint `URI` field
+ */
+export function encodeUri(uri: string): string {
+    const bytes = new TextEncoder().encode(uri);
+    if (bytes.length > MAX_URI_BYTES) {
+        throw new Error(`URI is ${bytes.length} bytes; NFToken URIs are limited to ${MAX_URI_BYTES}`);
+    }
+    return Array.from(bytes)
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("")
+        .toUpperCase();
+}
+
+/**
+ * Text of a hex-encoded NFToken `URI` field
+ */
+export function decodeUri(hex: string): string {
+    const bytes = new Uint8Array((hex.match(/.{1,2}/g) ?? []).map((b) => parseInt(b, 16)));
+    return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,41 @@
+import config from "../config/index.ts";
+import { timingSafeEqual } from "../utils/index.ts";
+
+export type CronHandler = (req: Request) => Promise<Response> | Response;
+
+export const CRON_SECRET_HEADER = "x-cron-secret";
+
+/**
+ * withCronAuth: Higher-order wrapper for scheduled functions that change state.
+ * The caller must send the service role key as `Authorization: Bearer <key>`,
+ * or CRON_SECRET in the `x-cron-secret` header. The anon key and user session
+ * JWTs are rejected (401).
+ */
+export function withCronAuth(handler: CronHandler) {
+    const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${CRON_SECRET_HEADER}`,
+    };
+
+    return async (req: Request): Promise<Response> => {
+        if (req.method === "OPTIONS") {
+            return new Response("ok", { headers: corsHeaders });
+        }
+
+        const authHeader = req.headers.get("authorization") || "";
+        const token = authHeader.toLowerCase().startsWith("bearer ") ? authHeader.split(" ")[1] : null;
+        const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+        const cronSecret = req.headers.get(CRON_SECRET_HEADER);
+
+        const authorized = (!!token && !!serviceRoleKey && timingSafeEqual(token, serviceRoleKey)) ||
+            (!!cronSecret && !!config.CRON_SECRET && timingSafeEqual(cronSecret, config.CRON_SECRET));
+        if (!authorized) {
+            return new Response(JSON.stringify({ success: false, error: "Service role key or cron secret required" }), {
+                status: 401,
+                headers: { ...corsHeaders, "Content-Type": "application/json" }
+            });
+        }
+
+        return await Promise.resolve(handler(req));
+    };
+}
@@ -0,0 +1,73 @@
+/**
+ * NFTokenMint flags and taxon rules.
+ *
+ * Allowed combinations:
+ * - burnable (tfBurnable): the issuer can burn the token while someone else holds it,
+ *   e.g. to redeem the underlying asset. Combines with every other flag.
+ * - only_xrp (tfOnlyXRP): offers for the token must be priced in XRP.
+ * - transferable (tfTransferable, on by default): holders can trade the token with
+ *   each other. Without it the token can only move to and from the issuer
+ *   (membership-style tokens), so it cannot be listed on the marketplace and
+ *   cannot carry a TransferFee.
+ * - tfTrustLine is not offered: the fixRemoveNFTokenAutoTrustLine amendment disabled it.
+ * - taxon groups tokens into a collection: any 32-bit unsigned integer.
+ */
+
+import { MAX_TRANSFER_FEE } from "../sales/fees.ts";
+
+export const TF_BURNABLE = 0x00000001;
+export const TF_ONLY_XRP = 0x00000002;
+export const TF_TRANSFERABLE = 0x00000008;
+
+// Flags create-nft accepts; anything else is rejected
+export const ALLOWED_MINT_FLAGS = TF_BURNABLE | TF_ONLY_XRP | TF_TRANSFERABLE;
+export const MAX_TAXON = 0xFFFFFFFF;
+
+// Named mint options as accepted from API callers
+export type MintFlagOptions = {
+    burnable?: boolean;
+    only_xrp?: boolean;
+    // Defaults to true
+    transferable?: boolean;
+};
+
+/**
+ * NFTokenMint `Flags` for named options
+ */
+export function toMintFlags(options: MintFlagOptions = {}): number {
+    return (options.burnable ? TF_BURNABLE : 0) |
+        (options.only_xrp ? TF_ONLY_XRP : 0) |
+        (options.transferable === false ? 0 : TF_TRANSFERABLE);
+}
+
+/**
+ * Named options for NFTokenMint `Flags` (or the flags encoded in an NFTokenID)
+ */
+export function fromMintFlags(flags: number): Required<MintFlagOptions> {
+    return {
+        burnable: (flags & TF_BURNABLE) !== 0,
+        only_xrp: (flags & TF_ONLY_XRP) !== 0,
+        transferable: (flags & TF_TRANSFERABLE) !== 0,
+    };
+}
+
+/**
+ * Check mint flags, taxon and transfer fee against the rules above.
+ * Returns an error message, or null when the combination can be minted.
+ */
+export function validateMintOptions(opts: { flags: number; taxon: number; transferFee: number }): string | null {
+    const { flags, taxon, transferFee } = opts;
+    if (!Number.isInteger(flags) || flags < 0 || (flags & ~ALLOWED_MINT_FLAGS) !== 0) {
+        return "flags may only combine burnable, only_xrp and transferable";
+    }
+    if (!Number.isInteger(taxon) || taxon < 0 || taxon > MAX_TAXON) {
+        return `taxon must be a whole number between 0 and ${MAX_TAXON}`;
+    }
+    if (!Number.isInteger(transferFee) || transferFee < 0 || transferFee > MAX_TRANSFER_FEE) {
+        return `transfer_fee must be a whole number between 0 and ${MAX_TRANSFER_FEE}`;
+    }
+    if (transferFee > 0 && (flags & TF_TRANSFERABLE) === 0) {
+        return "transfer_fee requires a transferable token";
+    }
+    return null;
+}
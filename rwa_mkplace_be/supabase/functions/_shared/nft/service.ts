@@ -1,6 +1,10 @@
-import type { Client, TxResponse, Wallet, NFTokenCreateOffer, NFTSellOffersRequest, NFTSellOffersResponse, NFTBuyOffersRequest, NFTBuyOffersResponse, NFTOffer } from "npm:xrpl@4.4.0";
+import type { Amount, Client, TxRequest, TxResponse, Wallet, NFTokenCreateOffer, NFTokenAcceptOffer, NFTokenCancelOffer, NFTSellOffersRequest, NFTSellOffersResponse, NFTBuyOffersRequest, NFTBuyOffersResponse, NFTOffer } from "npm:xrpl@4.4.0";
 import { NFTokenMint } from "npm:xrpl@4.4.0";
-import type { MintResult, MintOptions, NFTokenMintMetadata, OfferOptions, OfferResult } from "./type.ts";
+import { isPositiveAmount } from "../utils/amount.ts";
+import { TF_TRANSFERABLE, validateMintOptions } from "./flags.ts";
+import { MetadataService } from "../metadata/service.ts";
+import { encodeUri } from "../metadata/uri.ts";
+import type { MintResult, MintOptions, NFTokenMintMetadata, OfferOptions, OfferResult, TransactionVerification, CancelOffersResult } from "./type.ts";
 
 /**
  * NftService - small helper around XRPL NFToken minting.
@@ -12,18 +16,24 @@ export class NftService {
      * Create a new NftService instance.
      * @param client Connected xrpl Client used to submit requests and transactions.
      * @param backendWallet Wallet used as the default signing wallet when a caller does not provide one.
+     * @param metadataStore Store the metadata of minted tokens is saved in.
      */
-    constructor(private client: Client, private backendWallet: Wallet) { }
+    constructor(
+        private client: Client,
+        private backendWallet: Wallet,
+        private metadataStore: MetadataService = new MetadataService(),
+    ) { }
 
     /**
      * Mint an NFToken with the supplied metadata.
      *
-     * This builds the token metadata, encodes it to the XRPL URI hex format,
-     * submits an NFTokenMint transaction and waits for validation. If a
+     * This builds the token metadata, saves it in the content-addressed
+     * metadata store, hex-encodes the resulting short URI (XRPL limits URIs
+     * to 256 bytes), submits an NFTokenMint transaction and waits for validation. If a
      * `wallet` is provided it will be used for signing, otherwise the
      * `backendWallet` supplied to the constructor is used.
      *
-     * Errors: throws if the transaction returns no metadata, if the transaction
+     * Errors: throws if the metadata cannot be stored, if the transaction returns no metadata, if the transaction
      * result is not `tesSUCCESS`, or if a NFTokenID cannot be extracted from
      * the transaction metadata.
      *
@@ -35,7 +45,10 @@ export class NftService {
         wallet: Wallet | undefined,
         opts: MintOptions
     ): Promise<MintResult> {
-        const { name, imageUrl, metadata = {}, flags = 8, taxon = 0, transferFee = 0 } = opts;
+        const { name, imageUrl, metadata = {}, flags = TF_TRANSFERABLE, taxon = 0, transferFee = 0 } = opts;
+
+        const invalid = validateMintOptions({ flags, taxon, transferFee });
+        if (invalid) throw new Error(`Invalid mint options: ${invalid}`);
 
         // Build token metadata object
         const nftMetadata = {
@@ -45,14 +58,9 @@ export class NftService {
             ...metadata,
         };
 
-        // Convert metadata JSON to hex URI as required by XRPL
-        const metadataString = JSON.stringify(nftMetadata);
-        const encoder = new TextEncoder();
-        const metadataBytes = encoder.encode(metadataString);
-        const metadataHex = Array.from(metadataBytes)
-            .map((b) => b.toString(16).padStart(2, "0"))
-            .join("")
-            .toUpperCase();
+        // Store the JSON off-ledger; the URI only carries its hash reference
+        const stored = await this.metadataStore.store(nftMetadata);
+        const metadataHex = encodeUri(stored.uri);
 
         const useWallet = wallet ?? this.backendWallet;
 
@@ -90,6 +98,13 @@ export class NftService {
             nftTokenId,
             txHash,
             meta: txMeta,
+            issuer: useWallet.address,
+            flags,
+            taxon,
+            transferFee,
+            metadata: nftMetadata,
+            metadataUri: stored.uri,
+            metadataHash: stored.hash,
         };
     }
 
@@ -158,73 +173,166 @@ export class NftService {
     }
 
     /**
-     * Create an NFTokenCreateOffer (sell or buy offer) for the given NFT.
+     * Broker a sale by accepting a matching sell and buy offer in one NFTokenAcceptOffer.
      *
-     * This method submits an NFTokenCreateOffer transaction and then attempts to
-     * discover the created offer index by polling the ledger via `fetchSellOffers`
-     * or `fetchBuyOffers`.
+     * The transaction is signed by the service's backendWallet, which must be
+     * the `Destination` of both offers when they were created in broker mode.
+     * The NFT moves from the sell offer owner to the buy offer owner and the
+     * broker keeps `brokerFee` out of the buyer's payment.
      *
-     * Returns the offer index on success or null when the offer could not be found.
+     * Errors: throws if the transaction returns no metadata or if the
+     * transaction result is not `tesSUCCESS` (e.g. `tecINSUFFICIENT_PAYMENT`
+     * when the buy amount does not cover the sell amount plus fee).
      *
-     * Errors: throws if the create offer transaction fails or if fetching the
-     * offer index encounters an unexpected error.
+     * @param sellOfferIndex Ledger index of the NFTokenSellOffer.
+     * @param buyOfferIndex Ledger index of the NFTokenBuyOffer.
+     * @param brokerFee Fee kept by the broker, in drops or in the offers' IOU; omitted from the tx when zero.
+     * @returns Promise resolving to the validated transaction hash.
+     */
+    async brokerOffers(sellOfferIndex: string, buyOfferIndex: string, brokerFee: Amount = "0"): Promise<string> {
+        const acceptOffer: NFTokenAcceptOffer = {
+            TransactionType: "NFTokenAcceptOffer",
+            Account: this.backendWallet.address,
+            NFTokenSellOffer: sellOfferIndex,
+            NFTokenBuyOffer: buyOfferIndex,
+            // XRPL rejects a zero broker fee, so only set it when there is a commission
+            ...(isPositiveAmount(brokerFee) ? { NFTokenBrokerFee: brokerFee } : {}),
+        };
+
+        const response: TxResponse<NFTokenAcceptOffer> = await this.client.submitAndWait(acceptOffer, {
+            wallet: this.backendWallet,
+            autofill: true,
+        });
+
+        const txMeta = response?.result?.meta;
+        if (!txMeta) throw new Error("No metadata returned from broker transaction");
+        if (typeof txMeta === "string") throw new Error("Unexpected meta format: string");
+        if (txMeta.TransactionResult !== "tesSUCCESS") {
+            throw new Error(`Broker settlement failed: ${txMeta.TransactionResult}`);
+        }
+
+        return response.result.hash;
+    }
+
+    /**
+     * Look up a transaction by hash and report whether it succeeded on-ledger.
      *
-     * @param nftTokenId NFTokenID to create an offer for.
-     * @param type "sell" or "buy" to specify the offer type.
-     * @param destination For sell: recipient address; for buy: owner (seller) address.
-     * @param opts Offer options (amount, flags).
-     * @returns Promise resolving to the offer index string or null if not found.
+     * XUMM reports a payload as signed as soon as the user approves it, which
+     * says nothing about the engine result. Callers use this to confirm the
+     * transaction reached a validated ledger with `tesSUCCESS` before treating
+     * it as done.
+     *
+     * Behaviour and notes:
+     * - `txnNotFound` is not an error: it returns `{ found: false }` so callers can retry later.
+     * - `result` is only meaningful once `validated` is true; earlier results are provisional.
+     * - `offerIndex` is taken from the NFTokenOffer node created by the transaction.
+     *
+     * @param txHash - Hash of the transaction to verify.
+     * @returns Promise resolving to a TransactionVerification.
      */
-    async createOffer(
-        nftTokenId: string,
-        type: "sell" | "buy",
-        userAddress: string,
-        destination: string,
-        opts: OfferOptions = {}
-    ): Promise<string | null> {
-        const { amount = "0", flags } = opts;
+    async verifyTransaction(txHash: string): Promise<TransactionVerification> {
+        const txRequest: TxRequest = { command: "tx", transaction: txHash };
 
-        if (Number(amount) <= 0) {
-            throw new Error("Amount must be a non-negative number and non-zero");
+        let resp: TxResponse;
+        try {
+            resp = await this.client.request(txRequest);
+        } catch (err) {
+            const code = (err as { data?: { error?: string } })?.data?.error;
+            if (code === "txnNotFound") return { found: false, validated: false };
+            throw err;
         }
 
-        const createOffer: NFTokenCreateOffer = {
-            TransactionType: "NFTokenCreateOffer",
-            Account: userAddress,
-            NFTokenID: nftTokenId,
-            Amount: amount,
-            ...(type === "sell" ? { Destination: destination, Flags: flags ?? 1 } : { Owner: destination, Flags: flags ?? 0 }),
+        const meta = resp.result.meta;
+        if (!meta || typeof meta === "string") {
+            return { found: true, validated: Boolean(resp.result.validated), ledgerIndex: resp.result.ledger_index };
+        }
+
+        return {
+            found: true,
+            validated: Boolean(resp.result.validated),
+            result: meta.TransactionResult,
+            offerIndex: NftService.extractOfferIndexFromMeta(meta) ?? undefined,
+            deletedOfferIndexes: NftService.extractDeletedOfferIndexesFromMeta(meta),
+            ledgerIndex: resp.result.ledger_index,
+        };
+    }
+
+    /**
+     * Cancel NFToken offers with the backend wallet.
+     *
+     * The backend can only cancel offers it owns or that name it as
+     * `Destination` (every broker-mode offer created through create-offer).
+     * Offers already gone from the ledger are skipped by XRPL, so callers
+     * should rely on `deletedOfferIndexes` rather than the input list.
+     *
+     * Errors: throws if the transaction returns no metadata or if the
+     * transaction result is not `tesSUCCESS`.
+     *
+     * @param offerIndexes Ledger indexes of the NFTokenOffer entries to remove.
+     * @returns Promise resolving to the tx hash and the offers actually deleted.
+     */
+    async cancelOffers(offerIndexes: string[]): Promise<CancelOffersResult> {
+        const cancelOffer: NFTokenCancelOffer = {
+            TransactionType: "NFTokenCancelOffer",
+            Account: this.backendWallet.address,
+            NFTokenOffers: offerIndexes,
         };
 
-        const response = await this.client.submit(createOffer, {
+        const response: TxResponse<NFTokenCancelOffer> = await this.client.submitAndWait(cancelOffer, {
+            wallet: this.backendWallet,
             autofill: true,
         });
 
-        if (response.result.engine_result !== "tesSUCCESS") {
-            throw new Error("Offer creation failed: " + response.id + " - " + response.result.engine_result);
+        const txMeta = response?.result?.meta;
+        if (!txMeta) throw new Error("No metadata returned from cancel offer transaction");
+        if (typeof txMeta === "string") throw new Error("Unexpected meta format: string");
+        if (txMeta.TransactionResult !== "tesSUCCESS") {
+            throw new Error(`Offer cancellation failed: ${txMeta.TransactionResult}`);
         }
 
-        try {
-            if (type === "sell") {
-                const offers = await this.fetchSellOffers(nftTokenId);
-                const ourOffer = offers.find((offer) => offer.amount === amount && offer.destination === destination);
-                if (ourOffer) {
-                    return ourOffer.nft_offer_index || null;
-                }
-            } else {
-                const offers = await this.fetchBuyOffers(nftTokenId);
-                const ourOffer = offers.find((offer) => offer.amount === amount && offer.owner === destination);
-                if (ourOffer) {
-                    return ourOffer.nft_offer_index || null;
-                }
+        return {
+            txHash: response.result.hash,
+            deletedOfferIndexes: NftService.extractDeletedOfferIndexesFromMeta(txMeta),
+        };
+    }
+
+    /**
+     * Extract the ledger index of an NFTokenOffer created by a transaction.
+     *
+     * Prefers the `offer_id` shortcut some servers add to the metadata and
+     * falls back to scanning AffectedNodes for a created NFTokenOffer entry.
+     *
+     * @param meta Transaction metadata object returned by the xrpl client.
+     * @returns The offer index when found, otherwise null.
+     */
+    private static extractOfferIndexFromMeta(meta: NFTokenMintMetadata): string | null {
+        if (typeof meta.offer_id === "string") return meta.offer_id;
+
+        for (const node of meta.AffectedNodes ?? []) {
+            if ("CreatedNode" in node && node.CreatedNode.LedgerEntryType === "NFTokenOffer") {
+                return node.CreatedNode.LedgerIndex;
             }
-        } catch (err) {
-            throw new Error("Could not fetch offer index: " + String(err));
         }
 
         return null;
     }
 
+    /**
+     * Collect the ledger indexes of NFTokenOffer entries deleted by a transaction.
+     *
+     * @param meta Transaction metadata object returned by the xrpl client.
+     * @returns Offer indexes found in DeletedNode entries (possibly empty).
+     */
+    private static extractDeletedOfferIndexesFromMeta(meta: NFTokenMintMetadata): string[] {
+        const deleted: string[] = [];
+        for (const node of meta.AffectedNodes ?? []) {
+            if ("DeletedNode" in node && node.DeletedNode.LedgerEntryType === "NFTokenOffer") {
+                deleted.push(node.DeletedNode.LedgerIndex);
+            }
+        }
+        return deleted;
+    }
+
     /**
      *  This attempts to extract the NFTokenID from the transaction metadata in a robust way.
     *
@@ -322,6 +430,7 @@ export class NftService {
      * Behaviour and notes:
      * - `nftTokenId` must be a valid NFTokenID string (as produced by minting).
      * - The method does not modify any state; it only performs an RPC query.
+     * - A token without sell offers yields an empty array (`objectNotFound` is swallowed).
      *
      * Errors:
      * - Network or client errors from `this.client.request` will propagate to
@@ -336,8 +445,13 @@ export class NftService {
      */
     public async fetchSellOffers(nftTokenId: string): Promise<NFTOffer[]> {
         const sellOffersRequest: NFTSellOffersRequest = { command: "nft_sell_offers", nft_id: nftTokenId };
-        const resp: NFTSellOffersResponse = await this.client.request(sellOffersRequest);
-        return resp.result.offers;
+        try {
+            const resp: NFTSellOffersResponse = await this.client.request(sellOffersRequest);
+            return resp.result.offers;
+        } catch (err) {
+            if (NftService.isObjectNotFound(err)) return [];
+            throw err;
+        }
     }
 
     /**
@@ -351,6 +465,7 @@ export class NftService {
      * Behaviour and notes:
      * - `nftTokenId` must be a valid NFTokenID string (as produced by minting).
      * - The method does not modify ledger state; it performs a read-only RPC.
+     * - A token without buy offers yields an empty array (`objectNotFound` is swallowed).
      *
      * Errors:
      * - Network or client errors from `this.client.request` will propagate to
@@ -365,8 +480,21 @@ export class NftService {
      */
     public async fetchBuyOffers(nftTokenId: string): Promise<NFTOffer[]> {
         const buyOffersRequest: NFTBuyOffersRequest = { command: "nft_buy_offers", nft_id: nftTokenId };
-        const resp: NFTBuyOffersResponse = await this.client.request(buyOffersRequest);
-        return resp.result.offers;
+        try {
+            const resp: NFTBuyOffersResponse = await this.client.request(buyOffersRequest);
+            return resp.result.offers;
+        } catch (err) {
+            if (NftService.isObjectNotFound(err)) return [];
+            throw err;
+        }
+    }
+
+    /**
+     * rippled answers `objectNotFound` when a token has no offers of the
+     * requested side; callers want that as an empty list, not an error.
+     */
+    private static isObjectNotFound(err: unknown): boolean {
+        return (err as { data?: { error?: string } })?.data?.error === "objectNotFound";
     }
 }
 
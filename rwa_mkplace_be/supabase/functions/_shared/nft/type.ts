@@ -1,15 +1,25 @@
-import type { TransactionMetadataBase } from "npm:xrpl@4.4.1";
+import type { Amount, TransactionMetadataBase } from "npm:xrpl@4.4.1";
 
 /**
  * Result returned from a successful NFT mint operation.
  * - nftTokenId: the issued NFToken ID (usually a hex/string identifier)
  * - txHash: the transaction hash for the mint on the ledger
  * - meta: any raw metadata returned from the xrpl library / transaction metadata
+ * - issuer/flags/taxon/transferFee: the NFTokenMint fields the token was minted with
+ * - metadata: the JSON document the token URI references
+ * - metadataUri/metadataHash: the URI written on-ledger and the SHA-256 it references
  */
 export type MintResult = {
     nftTokenId: string;
     txHash: string;
     meta: unknown;
+    issuer: string;
+    flags: number;
+    taxon: number;
+    transferFee: number;
+    metadata: Record<string, unknown>;
+    metadataUri: string;
+    metadataHash: string;
 };
 
 /**
@@ -17,7 +27,10 @@ export type MintResult = {
  * - name: human-friendly name for the NFT
  * - imageUrl: URL pointing to the NFT image
  * - metadata: arbitrary additional metadata stored/linked with the token
- * - flags/taxon/transferFee: optional XRPL-specific minting parameters
+ * - flags: NFTokenMint flags (tfBurnable, tfOnlyXRP, tfTransferable; default tfTransferable),
+ *   see flags.ts for the allowed combinations
+ * - taxon: collection taxon, 0 - 4294967295 (default 0)
+ * - transferFee: royalty in 1/100000 units, 0 - 50000; requires tfTransferable
  */
 export type MintOptions = {
     name: string;
@@ -40,11 +53,11 @@ export interface NFTokenMintMetadata extends TransactionMetadataBase {
 
 /**
  * Options when creating an offer to transfer/sell an NFToken.
- * - amount: if present, this becomes a sell offer for that amount (string to match XRPL format)
+ * - amount: drops as a string, or an `{ currency, issuer, value }` IOU amount
  * - flags: optional XRPL flags for the offer (e.g., tfSellToken)
  */
 export type OfferOptions = {
-    amount?: string; // default: "0"
+    amount?: Amount; // default: "0"
     // if set, offer = sell offer
     // if not, offer = buy offer
     flags?: number;
@@ -60,3 +73,30 @@ export type OfferResult = {
     offerIndex?: string;
 };
 
+
+/**
+ * Outcome of looking up a submitted transaction on the ledger.
+ * - found: false when the node does not know the hash (yet)
+ * - validated: true once the transaction is in a validated ledger
+ * - result: engine result code, e.g. "tesSUCCESS" or "tecNO_PERMISSION"
+ * - offerIndex: ledger index of the NFTokenOffer created by the transaction, if any
+ * - deletedOfferIndexes: NFTokenOffer entries removed by the transaction (accepts/cancels)
+ */
+export type TransactionVerification = {
+    found: boolean;
+    validated: boolean;
+    result?: string;
+    offerIndex?: string;
+    deletedOfferIndexes?: string[];
+    ledgerIndex?: number;
+};
+
+/**
+ * Result of cancelling NFToken offers with the backend wallet.
+ * - txHash: validated NFTokenCancelOffer transaction hash
+ * - deletedOfferIndexes: offers the ledger actually removed
+ */
+export type CancelOffersResult = {
+    txHash: string;
+    deletedOfferIndexes: string[];
+};
@@ -0,0 +1,15 @@
+/**
+ * NFT catalogue module exports
+ * Central export point for the nfts table types and repository
+ */
+
+// Export all types
+export type {
+    NFTRecord,
+    NFTFilter,
+    NFTUpdate,
+    FindNFTsResult
+} from "./type.ts";
+
+// Export repository class
+export { NFTCatalogRepository } from "./repository.ts";
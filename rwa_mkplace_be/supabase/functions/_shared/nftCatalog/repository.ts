@@ -0,0 +1,168 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type {
+    NFTRecord,
+    NFTFilter,
+    NFTUpdate,
+    FindNFTsResult
+} from "./type.ts";
+
+/**
+ * Repository class for NFT catalogue database operations
+ * Handles all CRUD operations for the nfts table
+ */
+export class NFTCatalogRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Create a new NFT record in the database
+     */
+    async create(nftData: Omit<NFTRecord, 'id' | 'created_at' | 'updated_at'>): Promise<NFTRecord> {
+        const { data, error } = await this.supabase
+            .from('nfts')
+            .insert([{
+                nft_token_id: nftData.nft_token_id,
+                issuer: nftData.issuer,
+                owner_address: nftData.owner_address,
+                creator_address: nftData.creator_address,
+                taxon: nftData.taxon,
+                flags: nftData.flags,
+                transfer_fee: nftData.transfer_fee,
+                name: nftData.name,
+                image_url: nftData.image_url,
+                category: nftData.category,
+                metadata: nftData.metadata,
+                metadata_uri: nftData.metadata_uri,
+                metadata_hash: nftData.metadata_hash,
+                mint_tx_hash: nftData.mint_tx_hash,
+                network: nftData.network
+            }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating NFT record:', error);
+            throw new Error(`Failed to create NFT: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find NFT by token ID
+     */
+    async findByTokenId(nftTokenId: string): Promise<NFTRecord | null> {
+        const { data, error } = await this.supabase
+            .from('nfts')
+            .select('*')
+            .eq('nft_token_id', nftTokenId)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return null; // No rows found
+            }
+            console.error('Error finding NFT by token ID:', error);
+            throw new Error(`Failed to find NFT: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Update NFT by token ID
+     */
+    async updateByTokenId(nftTokenId: string, updates: NFTUpdate): Promise<NFTRecord> {
+        const { data, error } = await this.supabase
+            .from('nfts')
+            .update(updates)
+            .eq('nft_token_id', nftTokenId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating NFT:', error);
+            throw new Error(`Failed to update NFT: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Find token IDs of NFTs that have not been burned
+     */
+    async findActiveTokenIds(): Promise<string[]> {
+        const { data, error } = await this.supabase
+            .from('nfts')
+            .select('nft_token_id')
+            .is('burned_at', null);
+
+        if (error) {
+            console.error('Error finding active NFTs:', error);
+            throw new Error(`Failed to find NFTs: ${error.message}`);
+        }
+
+        return (data || []).map(row => row.nft_token_id);
+    }
+
+    /**
+     * Find NFTs with filters and pagination (burned tokens are excluded)
+     */
+    async findMany(filter: NFTFilter = {}): Promise<FindNFTsResult> {
+        let query = this.supabase
+            .from('nfts')
+            .select('*', { count: 'exact' })
+            .is('burned_at', null);
+
+        // Apply filters
+        if (filter.owner_address) {
+            query = query.eq('owner_address', filter.owner_address);
+        }
+
+        if (filter.category) {
+            query = query.ilike('category', filter.category);
+        }
+
+        if (filter.taxon !== undefined) {
+            query = query.eq('taxon', filter.taxon);
+        }
+
+        if (filter.verification_status) {
+            query = query.eq('verification_status', filter.verification_status);
+        }
+
+        if (filter.search) {
+            // Characters with meaning in a PostgREST or() filter are dropped
+            const term = filter.search.replace(/[,()*%\\]/g, ' ').trim();
+            if (term) {
+                query = query.or(`name.ilike.%${term}%,metadata->>description.ilike.%${term}%`);
+            }
+        }
+
+        // Apply pagination and ordering
+        const limit = Math.min(filter.limit || 50, 100); // Cap at 100
+        const offset = filter.offset || 0;
+
+        query = query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            console.error('Error finding NFTs:', error);
+            throw new Error(`Failed to find NFTs: ${error.message}`);
+        }
+
+        return {
+            nfts: data || [],
+            count: count || 0
+        };
+    }
+}
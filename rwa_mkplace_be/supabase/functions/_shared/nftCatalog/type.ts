@@ -0,0 +1,70 @@
+import type { VerificationStatus } from "../attestation/type.ts";
+
+/**
+ * Type definitions for the NFT catalogue
+ * Contains the interfaces used by the nfts table repository
+ */
+
+export interface NFTRecord {
+    id?: string;
+    nft_token_id: string;
+    // Account that minted the token (the backend wallet for create-nft mints)
+    issuer: string;
+    // Current holder; starts as the issuer until the transfer offer is accepted
+    owner_address: string;
+    // Account the token was minted for
+    creator_address?: string;
+    taxon: number;
+    flags: number;
+    transfer_fee: number;
+    // Generated from flags by the database; never written
+    readonly burnable?: boolean;
+    readonly only_xrp?: boolean;
+    readonly transferable?: boolean;
+    name?: string;
+    image_url?: string;
+    category?: string;
+    // JSON the token URI references (or the inline JSON of older tokens)
+    metadata: Record<string, unknown>;
+    // URI written on-ledger and the nft_metadata hash it references
+    metadata_uri?: string;
+    metadata_hash?: string;
+    // Set by the latest verifier attestation (see attest-nft)
+    verification_status?: VerificationStatus;
+    verified_at?: string;
+    verified_by?: string;
+    mint_tx_hash: string;
+    network: string;
+    burned_at?: string;
+    burn_tx_hash?: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface NFTFilter {
+    owner_address?: string;
+    category?: string;
+    // Collection taxon
+    taxon?: number;
+    // Case-insensitive match on name or description
+    search?: string;
+    verification_status?: VerificationStatus;
+    limit?: number;
+    offset?: number;
+}
+
+export interface NFTUpdate {
+    owner_address?: string;
+    metadata?: Record<string, unknown>;
+    burned_at?: string;
+    burn_tx_hash?: string;
+    verification_status?: VerificationStatus;
+    verified_at?: string;
+    verified_by?: string;
+}
+
+// Repository method return types
+export interface FindNFTsResult {
+    nfts: NFTRecord[];
+    count: number;
+}
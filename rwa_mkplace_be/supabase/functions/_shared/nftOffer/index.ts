@@ -8,15 +8,34 @@ export type {
     NFTOfferData,
     NFTOfferFilter,
     NFTOfferUpdate,
+    NFTOfferStatus,
+    NFTOfferEventSource,
+    NFTOfferEvent,
+    TransitionContext,
     CreateOfferInput,
     OfferStatusResult,
     FindManyResult,
+    ExpiryResult,
     ListOffersResult,
-    WebhookPayload
+    WebhookPayload,
+    SettlementMatch,
+    SettlementResult,
+    ReconciliationKind,
+    ReconciliationDiscrepancy,
+    ReconciliationReport
 } from "./type.ts";
 
+// Export offer status transition table
+export { OFFER_TRANSITIONS, canTransition, assertTransition } from "./stateMachine.ts";
+
 // Export repository class
 export { NFTOfferRepository } from "./repository.ts";
 
 // Export service class
-export { NFTOfferService } from "./service.ts";
\ No newline at end of file
+export { NFTOfferService } from "./service.ts";
+
+// Export broker settlement engine
+export { NFTOfferSettlementService } from "./settlement.ts";
+
+// Export ledger reconciliation job
+export { NFTOfferReconciliationService } from "./reconciliation.ts";
@@ -0,0 +1,263 @@
+import { rippleTimeToUnixTime } from "npm:xrpl@4.4.0";
+import type { Client, NFTOffer } from "npm:xrpl@4.4.0";
+import { NFTOfferRepository } from "./repository.ts";
+import type {
+    NFTOfferData,
+    NFTOfferUpdate,
+    ReconciliationDiscrepancy,
+    ReconciliationKind,
+    ReconciliationReport,
+    TransitionContext
+} from "./type.ts";
+import type NftService from "../nft/service.ts";
+import { amountMatches } from "../utils/amount.ts";
+import { parseNftTransaction, toLedgerTransaction } from "../indexer/parser.ts";
+import type { NftLedgerEvent } from "../indexer/type.ts";
+
+// Recent token history searched for the transaction that deleted an offer
+const HISTORY_LIMIT = 200;
+// tfSellNFToken, echoed in the flags of nft_sell_offers entries
+const SELL_FLAG = 0x00000001;
+
+/**
+ * Reconciliation between open `nft_offers` rows and the live ledger offers.
+ *
+ * For every token with unsettled sell/buy rows, the rows are paired with
+ * `nft_sell_offers` / `nft_buy_offers` the same way the settlement engine
+ * pairs them. Rows whose ledger offer is gone are explained from Clio
+ * `nft_history` (accepted, cancelled or burned), offers past their
+ * `Expiration` are expired, and live offers without an open row are
+ * reported. With `fix` off the report is produced without touching any row.
+ */
+export class NFTOfferReconciliationService {
+    private repository: NFTOfferRepository;
+    private history = new Map<string, NftLedgerEvent[]>();
+
+    /**
+     * @param nftService NftService used to read the live ledger offers.
+     * @param clioClient Clio client for `nft_history`; without it deleted
+     * offers are only reported as missing.
+     * @param brokerAddress Address create-offer uses as `Destination`.
+     * @param fix Whether drift is written back to nft_offers.
+     */
+    constructor(
+        private nftService: NftService,
+        private clioClient: Client | null,
+        private brokerAddress: string,
+        private fix = true,
+    ) {
+        this.repository = new NFTOfferRepository();
+    }
+
+    /**
+     * Reconcile every token that has unsettled sell or buy rows.
+     * A failure on one token is logged and does not stop the others.
+     */
+    async reconcileAll(): Promise<ReconciliationReport> {
+        const candidates = await this.repository.findSettlementCandidates();
+        const tokens = new Set(candidates.filter(isLedgerOffer).map(o => o.nft_token_id));
+
+        const report: ReconciliationReport = { tokens_checked: 0, offers_checked: 0, discrepancies: [], failed: [] };
+
+        for (const nftTokenId of tokens) {
+            try {
+                const result = await this.reconcileToken(nftTokenId);
+                report.tokens_checked++;
+                report.offers_checked += result.offers_checked;
+                report.discrepancies.push(...result.discrepancies);
+            } catch (error) {
+                console.error(`Failed to reconcile token ${nftTokenId}:`, error);
+                report.failed.push({ nft_token_id: nftTokenId, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        console.log(`Reconciled ${report.tokens_checked} token(s): ${report.discrepancies.length} discrepancy(ies), ${report.failed.length} failure(s)`);
+        return report;
+    }
+
+    /**
+     * Compare one token's unsettled sell/buy rows with its live ledger offers.
+     */
+    async reconcileToken(nftTokenId: string): Promise<{ offers_checked: number; discrepancies: ReconciliationDiscrepancy[] }> {
+        const rows = (await this.repository.findSettlementCandidates(nftTokenId)).filter(isLedgerOffer);
+        const [ledgerSells, ledgerBuys] = await Promise.all([
+            this.nftService.fetchSellOffers(nftTokenId),
+            this.nftService.fetchBuyOffers(nftTokenId),
+        ]);
+
+        const discrepancies: ReconciliationDiscrepancy[] = [];
+        const claimed = new Set<string>();
+        const now = new Date().toISOString();
+
+        // Indexed rows go first so a heuristic match cannot steal their offer
+        const ordered = [...rows].sort((a, b) => Number(!a.offer_index) - Number(!b.offer_index));
+
+        for (const row of ordered) {
+            const ledgerOffers = row.offer_type === 'sell' ? ledgerSells : ledgerBuys;
+            const offer = ledgerOffers.find(o =>
+                !claimed.has(o.nft_offer_index) &&
+                (row.offer_index
+                    ? o.nft_offer_index === row.offer_index
+                    : o.owner === row.user_address && amountMatches(o.amount, row) && o.destination === this.brokerAddress)
+            );
+
+            if (offer) {
+                claimed.add(offer.nft_offer_index);
+                const index = offer.nft_offer_index;
+
+                if (offer.expiration !== undefined && rippleTimeToUnixTime(offer.expiration) <= Date.now()) {
+                    discrepancies.push(await this.resolve(row, 'expired', index, undefined, {
+                        status: 'expired',
+                        offer_index: index,
+                        error_message: 'Offer expired on-ledger',
+                    }, offer));
+                } else if (row.status !== 'completed') {
+                    discrepancies.push(await this.resolve(row, 'unconfirmed', index, undefined, {
+                        status: 'completed',
+                        completed_at: now,
+                        offer_index: index,
+                    }, offer));
+                } else if (!row.offer_index && this.fix) {
+                    // Older rows predate offer_index; store it once it is known
+                    await this.repository.updateById(row.id!, { offer_index: index });
+                }
+                continue;
+            }
+
+            // Pending and signed rows have not reached the ledger yet
+            if (row.status !== 'completed') continue;
+
+            if (!row.offer_index) {
+                discrepancies.push(this.report(row, 'missing', undefined, undefined, false, 'No matching ledger offer'));
+                continue;
+            }
+
+            const event = await this.findDeletingEvent(nftTokenId, row.offer_index);
+            switch (event?.type) {
+                case 'transfer':
+                    discrepancies.push(await this.resolve(row, 'consumed', row.offer_index, event.txHash, {
+                        status: 'completed',
+                        settlement_tx_hash: event.txHash,
+                        settled_at: now,
+                    }));
+                    break;
+                case 'cancel':
+                    discrepancies.push(await this.resolve(row, 'cancelled', row.offer_index, event.txHash, {
+                        status: 'cancelled',
+                        cancel_tx_hash: event.txHash,
+                        cancelled_at: now,
+                    }));
+                    break;
+                case 'burn':
+                    discrepancies.push(await this.resolve(row, 'burned', row.offer_index, event.txHash, {
+                        status: 'failed',
+                        error_message: 'Token was burned',
+                    }));
+                    break;
+                default:
+                    discrepancies.push(this.report(row, 'missing', row.offer_index, undefined, false,
+                        this.clioClient ? 'No deleting transaction in recent token history' : 'Clio unavailable'));
+            }
+        }
+
+        // Live offers that no open row accounts for
+        const unclaimed = [...ledgerSells, ...ledgerBuys].filter(o => !claimed.has(o.nft_offer_index));
+        const known = await this.repository.findByOfferIndexes(unclaimed.map(o => o.nft_offer_index));
+        for (const offer of unclaimed) {
+            const row = known.find(r => r.offer_index === offer.nft_offer_index);
+            discrepancies.push({
+                kind: 'untracked',
+                nft_token_id: nftTokenId,
+                offer_id: row?.id,
+                offer_index: offer.nft_offer_index,
+                status: row?.status,
+                fixed: false,
+                detail: row
+                    ? `Offer is live on-ledger but the row is ${row.status}`
+                    : `Unknown ${offer.flags & SELL_FLAG ? 'sell' : 'buy'} offer from ${offer.owner}`,
+            });
+        }
+
+        return { offers_checked: rows.length, discrepancies };
+    }
+
+    /**
+     * Report a discrepancy and, in fix mode, move the row to the ledger's state.
+     */
+    private async resolve(
+        row: NFTOfferData,
+        kind: ReconciliationKind,
+        offerIndex: string | undefined,
+        txHash: string | undefined,
+        updates: NFTOfferUpdate,
+        ledgerOffer?: NFTOffer,
+    ): Promise<ReconciliationDiscrepancy> {
+        if (!this.fix) return this.report(row, kind, offerIndex, txHash, false);
+
+        const context: TransitionContext = {
+            source: 'cron',
+            actor: 'reconcile-offers',
+            payload: { kind, tx_hash: txHash, ledger_offer: ledgerOffer },
+        };
+
+        try {
+            await this.repository.transition(row, updates, context);
+            return this.report(row, kind, offerIndex, txHash, true);
+        } catch (error) {
+            return this.report(row, kind, offerIndex, txHash, false, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private report(
+        row: NFTOfferData,
+        kind: ReconciliationKind,
+        offerIndex: string | undefined,
+        txHash: string | undefined,
+        fixed: boolean,
+        detail?: string,
+    ): ReconciliationDiscrepancy {
+        return {
+            kind,
+            nft_token_id: row.nft_token_id,
+            offer_id: row.id,
+            offer_index: offerIndex,
+            status: row.status,
+            tx_hash: txHash,
+            fixed,
+            detail,
+        };
+    }
+
+    /**
+     * Find the accept, cancel or burn that deleted `offerIndex`, newest first.
+     * Token history is fetched once per token and run.
+     */
+    private async findDeletingEvent(nftTokenId: string, offerIndex: string): Promise<NftLedgerEvent | null> {
+        if (!this.clioClient) return null;
+
+        if (!this.history.has(nftTokenId)) {
+            const res = await this.clioClient.request({
+                command: 'nft_history',
+                nft_id: nftTokenId,
+                forward: false,
+                limit: HISTORY_LIMIT,
+            });
+            const events: NftLedgerEvent[] = [];
+            for (const entry of res.result.transactions) {
+                const tx = toLedgerTransaction(entry);
+                const event = tx ? parseNftTransaction(tx) : null;
+                if (event) events.push(event);
+            }
+            this.history.set(nftTokenId, events);
+        }
+
+        return this.history.get(nftTokenId)!.find(e =>
+            'deletedOfferIndexes' in e && e.deletedOfferIndexes.includes(offerIndex)
+        ) ?? null;
+    }
+}
+
+// Only sell and buy rows create an NFTokenOffer on-ledger
+function isLedgerOffer(offer: NFTOfferData): boolean {
+    return offer.offer_type === 'sell' || offer.offer_type === 'buy';
+}
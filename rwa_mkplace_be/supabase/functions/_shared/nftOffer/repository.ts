@@ -3,8 +3,14 @@ import type {
     NFTOfferData,
     NFTOfferFilter,
     NFTOfferUpdate,
-    FindManyResult
-} from "./type.ts";/**
+    NFTOfferEvent,
+    TransitionContext,
+    FindManyResult,
+    ExpiryResult
+} from "./type.ts";
+import { assertTransition } from "./stateMachine.ts";
+
+/**
  * Repository class for NFT offer database operations
  * Handles all CRUD operations for the nft_offers table
  */
@@ -29,11 +35,15 @@ export class NFTOfferRepository {
                 offer_type: offerData.offer_type,
                 user_address: offerData.user_address,
                 amount: offerData.amount,
+                currency: offerData.currency || 'XRP',
+                issuer: offerData.issuer,
                 owner_address: offerData.owner_address,
+                offer_expires_at: offerData.offer_expires_at,
                 payload_id: offerData.payload_id,
                 deep_link: offerData.deep_link,
                 qr_code: offerData.qr_code,
                 pushed: offerData.pushed || false,
+                matched_offer_id: offerData.matched_offer_id,
                 status: offerData.status || 'pending'
             }])
             .select()
@@ -90,9 +100,26 @@ export class NFTOfferRepository {
     }
 
     /**
-     * Update offer by payload ID
+     * Find offers targeted by a 'cancel' row
      */
-    async updateByPayloadId(payloadId: string, updates: NFTOfferUpdate): Promise<NFTOfferData> {
+    async findByCancelRequestId(cancelRequestId: string): Promise<NFTOfferData[]> {
+        const { data, error } = await this.supabase
+            .from('nft_offers')
+            .select('*')
+            .eq('cancel_request_id', cancelRequestId);
+
+        if (error) {
+            console.error('Error finding offers by cancel request ID:', error);
+            throw new Error(`Failed to find offers: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Update offer by payload ID (status changes go through transition)
+     */
+    async updateByPayloadId(payloadId: string, updates: Omit<NFTOfferUpdate, 'status'>): Promise<NFTOfferData> {
         const { data, error } = await this.supabase
             .from('nft_offers')
             .update(updates)
@@ -108,12 +135,215 @@ export class NFTOfferRepository {
         return data;
     }
 
+    /**
+     * Update offer by ID (status changes go through transition)
+     */
+    async updateById(id: string, updates: Omit<NFTOfferUpdate, 'status'>): Promise<NFTOfferData> {
+        const { data, error } = await this.supabase
+            .from('nft_offers')
+            .update(updates)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating offer by ID:', error);
+            throw new Error(`Failed to update offer: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    /**
+     * Move an offer to `updates.status` (or keep its status) and audit the move.
+     *
+     * The table in stateMachine.ts decides what is legal. The update only
+     * applies while the row is still in `offer.status`, so a concurrent
+     * webhook and poll cannot both move the same row; the loser gets an error.
+     * An event is recorded whenever `updates.status` is set, including
+     * same-status moves such as a completed offer being settled.
+     */
+    async transition(offer: NFTOfferData, updates: NFTOfferUpdate, context: TransitionContext): Promise<NFTOfferData> {
+        const toStatus = updates.status ?? offer.status;
+        assertTransition(offer.status, toStatus);
+
+        const { data, error } = await this.supabase
+            .from('nft_offers')
+            .update(updates)
+            .eq('id', offer.id!)
+            .eq('status', offer.status)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error transitioning offer:', error);
+            throw new Error(`Failed to update offer: ${error.message}`);
+        }
+        if (!data) {
+            throw new Error(`Failed to update offer: ${offer.id} is no longer ${offer.status}`);
+        }
+
+        if (updates.status) {
+            await this.recordEvents([{
+                offer_id: offer.id!,
+                from_status: offer.status,
+                to_status: toStatus,
+                ...context,
+            }]);
+        }
+
+        return data;
+    }
+
+    /**
+     * Append rows to the nft_offer_events audit log
+     */
+    async recordEvents(events: Omit<NFTOfferEvent, 'id' | 'created_at'>[]): Promise<void> {
+        if (events.length === 0) return;
+
+        const { error } = await this.supabase
+            .from('nft_offer_events')
+            .insert(events.map(event => ({
+                offer_id: event.offer_id,
+                from_status: event.from_status,
+                to_status: event.to_status,
+                source: event.source,
+                actor: event.actor,
+                payload: event.payload ?? null,
+            })));
+
+        if (error) {
+            console.error('Error recording offer event:', error);
+            throw new Error(`Failed to record offer event: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find the status history of an offer, oldest first
+     */
+    async findEvents(offerId: string): Promise<NFTOfferEvent[]> {
+        const { data, error } = await this.supabase
+            .from('nft_offer_events')
+            .select('*')
+            .eq('offer_id', offerId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error finding offer events:', error);
+            throw new Error(`Failed to find offer events: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Find offers that may still be live on-ledger and have not been brokered yet.
+     * Rows are ordered oldest first so earlier offers win ties when matching.
+     */
+    async findSettlementCandidates(nftTokenId?: string): Promise<NFTOfferData[]> {
+        let query = this.supabase
+            .from('nft_offers')
+            .select('*')
+            .in('status', ['pending', 'signed', 'completed'])
+            .is('settlement_tx_hash', null);
+
+        if (nftTokenId) {
+            query = query.eq('nft_token_id', nftTokenId);
+        }
+
+        const { data, error } = await query.order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error finding settlement candidates:', error);
+            throw new Error(`Failed to find settlement candidates: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Find unsettled offers whose ledger entry is one of `offerIndexes`
+     */
+    async findOpenByOfferIndexes(offerIndexes: string[]): Promise<NFTOfferData[]> {
+        if (offerIndexes.length === 0) return [];
+
+        const { data, error } = await this.supabase
+            .from('nft_offers')
+            .select('*')
+            .in('offer_index', offerIndexes)
+            .in('status', ['pending', 'signed', 'completed'])
+            .is('settlement_tx_hash', null);
+
+        if (error) {
+            console.error('Error finding offers by offer index:', error);
+            throw new Error(`Failed to find offers: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Find offers in any status whose ledger entry is one of `offerIndexes`
+     */
+    async findByOfferIndexes(offerIndexes: string[]): Promise<NFTOfferData[]> {
+        if (offerIndexes.length === 0) return [];
+
+        const { data, error } = await this.supabase
+            .from('nft_offers')
+            .select('*')
+            .in('offer_index', offerIndexes);
+
+        if (error) {
+            console.error('Error finding offers by offer index:', error);
+            throw new Error(`Failed to find offers: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Point open bids for a token at its new owner after a sale.
+     * Bids placed by the new owner themselves can no longer be filled and are failed.
+     */
+    async retargetOpenBids(nftTokenId: string, newOwner: string, excludeIds: string[], context: TransitionContext): Promise<number> {
+        const openBids = (await this.findSettlementCandidates(nftTokenId))
+            .filter(o => o.offer_type === 'buy' && !excludeIds.includes(o.id!));
+
+        const ownBids = openBids.filter(o => o.user_address === newOwner);
+        const otherBidIds = openBids.filter(o => o.user_address !== newOwner).map(o => o.id!);
+
+        for (const bid of ownBids) {
+            await this.transition(bid, { status: 'failed', error_message: 'Bidder became the token owner' }, context);
+        }
+
+        if (otherBidIds.length > 0) {
+            const { error } = await this.supabase
+                .from('nft_offers')
+                .update({ owner_address: newOwner })
+                .in('id', otherBidIds);
+            if (error) {
+                console.error('Error retargeting bids:', error);
+                throw new Error(`Failed to update bids: ${error.message}`);
+            }
+        }
+
+        return openBids.length;
+    }
+
     /**
      * Find offers with filters and pagination
      */
     async findMany(filter: NFTOfferFilter = {}): Promise<FindManyResult> {
+        return await this.findManyIn('nft_offers', filter);
+    }
+
+    /**
+     * findMany over `source`: the nft_offers table, or the nft_listings view
+     * of sell offers with their token's verification_status
+     */
+    private async findManyIn(source: 'nft_offers' | 'nft_listings', filter: NFTOfferFilter): Promise<FindManyResult> {
         let query = this.supabase
-            .from('nft_offers')
+            .from(source)
             .select('*', { count: 'exact' });
 
         // Apply filters
@@ -133,6 +363,14 @@ export class NFTOfferRepository {
             query = query.eq('status', filter.status);
         }
 
+        if (filter.exclude_expired) {
+            query = query.or(`offer_expires_at.is.null,offer_expires_at.gt.${new Date().toISOString()}`);
+        }
+
+        if (filter.verification_status) {
+            query = query.eq('verification_status', filter.verification_status);
+        }
+
         // Apply pagination and ordering
         const limit = Math.min(filter.limit || 50, 100); // Cap at 100
         const offset = filter.offset || 0;
@@ -155,35 +393,37 @@ export class NFTOfferRepository {
     }
 
     /**
-     * Find sell offers with pending status (for marketplace listings)
+     * Find sell offers for marketplace listings, each with its token's
+     * verification_status; listings past their on-ledger Expiration are left
+     * out unless `exclude_expired` is false
      */
     async findSellOffers(filter: Omit<NFTOfferFilter, 'offer_type'> = {}): Promise<FindManyResult> {
-        return await this.findMany({
+        return await this.findManyIn('nft_listings', {
+            exclude_expired: true,
             ...filter,
             offer_type: 'sell'
         });
     }
 
     /**
-     * Mark expired offers
+     * Run the expire_old_offers() SQL function: pending rows past their XUMM
+     * payload expiry and signed rows never submitted within `signedGraceSeconds`
+     * become expired, each with an nft_offer_events row
      */
-    async expireOldOffers(): Promise<number> {
+    async expireOldOffers(signedGraceSeconds: number): Promise<ExpiryResult> {
         const { data, error } = await this.supabase
-            .from('nft_offers')
-            .update({
-                status: 'expired',
-                updated_at: new Date().toISOString()
-            })
-            .eq('status', 'pending')
-            .lt('payload_expires_at', new Date().toISOString())
-            .select();
+            .rpc('expire_old_offers', { signed_grace: `${signedGraceSeconds} seconds` })
+            .single<ExpiryResult>();
 
         if (error) {
             console.error('Error expiring old offers:', error);
             throw new Error(`Failed to expire offers: ${error.message}`);
         }
 
-        return data?.length || 0;
+        return {
+            pending_expired: data?.pending_expired ?? 0,
+            signed_expired: data?.signed_expired ?? 0,
+        };
     }
 
     /**
@@ -3,22 +3,44 @@ import type {
     NFTOfferData,
     NFTOfferFilter,
     NFTOfferUpdate,
+    NFTOfferStatus,
+    NFTOfferEvent,
+    TransitionContext,
     CreateOfferInput,
     OfferStatusResult,
     ListOffersResult,
-    WebhookPayload
+    WebhookPayload,
+    ExpiryResult
 } from "./type.ts";
 import XummService from "../xumm/index.ts";
-import config from "../config/index.ts";/**
+import type NftService from "../nft/service.ts";
+import { SalesService } from "../sales/service.ts";
+import type { TransactionVerification } from "../nft/type.ts";
+import type { XummPayloadStatus } from "../xumm/type.ts";
+import config from "../config/index.ts";
+
+// Statuses a XUMM payload outcome can still move an offer out of
+const PAYLOAD_OPEN_STATUSES: NFTOfferStatus[] = ['pending', 'signed'];
+
+// What XUMM reports about a payload, from a webhook or a status poll
+type PayloadOutcome = Pick<XummPayloadStatus, 'signed' | 'expired' | 'cancelled' | 'txid'>;
+/**
  * Service class for NFT offer business logic
  * Handles offer creation, status updates, and integrates with XUMM
  */
 export class NFTOfferService {
     private repository: NFTOfferRepository;
+    private sales: SalesService;
     private xummService?: XummService;
 
-    constructor() {
+    /**
+     * @param nftService Optional NftService used to verify signed transactions
+     * on-ledger. Without it, signed payloads are left in `signed` and never
+     * promoted to `completed`.
+     */
+    constructor(private nftService?: NftService) {
         this.repository = new NFTOfferRepository();
+        this.sales = new SalesService();
 
         // Initialize XUMM service if credentials are available
         if (config.XUMM_API_KEY && config.XUMM_API_SECRET) {
@@ -27,24 +49,39 @@ export class NFTOfferService {
     }
 
     /**
-     * Create a new NFT offer
+     * Create a new NFT offer and record its creation event
      */
-    async createOffer(input: CreateOfferInput & { payload_id: string }): Promise<NFTOfferData> {
+    async createOffer(
+        input: CreateOfferInput & { payload_id: string },
+        context: TransitionContext = { source: 'api' }
+    ): Promise<NFTOfferData> {
         try {
             const offerData: Omit<NFTOfferData, 'id' | 'created_at' | 'updated_at'> = {
                 nft_token_id: input.nft_token_id,
                 offer_type: input.offer_type,
                 user_address: input.user_address,
                 amount: input.amount,
+                currency: input.currency,
+                issuer: input.issuer,
                 owner_address: input.owner_address,
+                offer_expires_at: input.offer_expires_at,
                 payload_id: input.payload_id,
                 deep_link: input.deep_link,
                 qr_code: input.qr_code,
                 pushed: input.pushed || false,
+                matched_offer_id: input.matched_offer_id,
                 status: 'pending'
             };
 
             const createdOffer = await this.repository.create(offerData);
+            await this.repository.recordEvents([{
+                offer_id: createdOffer.id!,
+                from_status: null,
+                to_status: createdOffer.status,
+                source: context.source,
+                actor: context.actor ?? input.user_address,
+                payload: context.payload,
+            }]);
             console.log(`Created offer ${createdOffer.id} with payload_id: ${input.payload_id}`);
 
             return createdOffer;
@@ -79,11 +116,20 @@ export class NFTOfferService {
     }
 
     /**
-     * Update offer status by payload ID
+     * Update offer status by payload ID, subject to the transition table
      */
-    async updateOfferStatus(payloadId: string, updates: NFTOfferUpdate): Promise<NFTOfferData> {
+    async updateOfferStatus(
+        payloadId: string,
+        updates: NFTOfferUpdate,
+        context: TransitionContext = { source: 'admin' }
+    ): Promise<NFTOfferData> {
         try {
-            const updatedOffer = await this.repository.updateByPayloadId(payloadId, updates);
+            const offer = await this.repository.findByPayloadId(payloadId);
+            if (!offer) {
+                throw new Error('Offer not found');
+            }
+
+            const updatedOffer = await this.repository.transition(offer, updates, context);
             console.log(`Updated offer ${updatedOffer.id} to status: ${updates.status}`);
 
             return updatedOffer;
@@ -104,41 +150,20 @@ export class NFTOfferService {
                 throw new Error('Offer not found');
             }
 
-            // If offer is not pending or XUMM service is not available, return current state
-            if (offer.status !== 'pending' || !this.xummService) {
+            // Only pending offers and signed offers awaiting ledger validation can
+            // still change; otherwise (or without XUMM service) return current state
+            if (!PAYLOAD_OPEN_STATUSES.includes(offer.status) || !this.xummService) {
                 return { offer, updated: false };
             }
 
             try {
                 const xummStatus = await this.xummService.getPayloadStatus(payloadId);
 
-                let shouldUpdate = false;
-                const updates: NFTOfferUpdate = {};
-
-                // Determine status based on XUMM response
-                if (xummStatus.expired) {
-                    updates.status = 'expired';
-                    shouldUpdate = true;
-                } else if (xummStatus.cancelled) {
-                    updates.status = 'rejected';
-                    shouldUpdate = true;
-                } else if (xummStatus.signed && xummStatus.resolved) {
-                    updates.status = 'completed';
-                    updates.signed_at = new Date().toISOString();
-                    updates.completed_at = new Date().toISOString();
-                    shouldUpdate = true;
-                } else if (xummStatus.signed && !xummStatus.resolved) {
-                    updates.status = 'failed';
-                    updates.error_message = 'Transaction signed but not resolved';
-                    shouldUpdate = true;
-                }
-
-                if (shouldUpdate) {
-                    const updatedOffer = await this.repository.updateByPayloadId(payloadId, updates);
-                    return { offer: updatedOffer, updated: true };
-                }
-
-                return { offer, updated: false };
+                return await this.syncFromPayload(offer, xummStatus, {
+                    source: 'poll',
+                    actor: xummStatus.wallet_address,
+                    payload: xummStatus,
+                });
 
             } catch (xummError) {
                 console.error('Error checking XUMM status:', xummError);
@@ -159,30 +184,24 @@ export class NFTOfferService {
         try {
             const payloadId = webhookPayload.meta.uuid;
 
-            // Determine new status
-            let newStatus: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
-            const updateData: NFTOfferUpdate = {};
-
-            if (webhookPayload.meta.expired) {
-                newStatus = 'expired';
-            } else if (webhookPayload.meta.cancelled) {
-                newStatus = 'rejected';
-            } else if (webhookPayload.meta.signed && webhookPayload.payloadResponse) {
-                newStatus = 'completed';
-                updateData.signed_at = new Date().toISOString();
-                updateData.completed_at = new Date().toISOString();
-                updateData.tx_hash = webhookPayload.payloadResponse.txid;
-            } else if (webhookPayload.meta.signed && !webhookPayload.payloadResponse) {
-                newStatus = 'failed';
-                updateData.error_message = 'Transaction signed but no response received';
-            } else {
-                newStatus = 'pending';
+            const offer = await this.repository.findByPayloadId(payloadId);
+            if (!offer) {
+                throw new Error('Offer not found');
             }
 
-            updateData.status = newStatus;
-
-            const updatedOffer = await this.repository.updateByPayloadId(payloadId, updateData);
-            console.log(`Webhook updated offer ${updatedOffer.id} to status: ${newStatus}`);
+            const { offer: updatedOffer, updated } = await this.syncFromPayload(offer, {
+                signed: webhookPayload.meta.signed,
+                expired: webhookPayload.meta.expired,
+                cancelled: webhookPayload.meta.cancelled,
+                txid: webhookPayload.payloadResponse?.txid,
+            }, {
+                source: 'webhook',
+                payload: webhookPayload,
+            });
+
+            if (updated) {
+                console.log(`Webhook updated offer ${updatedOffer.id} to status: ${updatedOffer.status}`);
+            }
 
             return updatedOffer;
 
@@ -192,6 +211,191 @@ export class NFTOfferService {
         }
     }
 
+    /**
+     * Apply a XUMM payload outcome to an offer. Webhooks and polls share these
+     * rules: expired -> `expired`, cancelled -> `rejected`, signed with a txid
+     * -> verified on-ledger, signed without one -> `signed` until it is submitted.
+     * Offers that already left pending/signed are returned unchanged.
+     */
+    private async syncFromPayload(offer: NFTOfferData, outcome: PayloadOutcome, context: TransitionContext): Promise<OfferStatusResult> {
+        if (!PAYLOAD_OPEN_STATUSES.includes(offer.status)) {
+            return { offer, updated: false };
+        }
+
+        let updates: NFTOfferUpdate | null = null;
+        let verification: TransactionVerification | undefined;
+
+        if (outcome.expired) {
+            updates = { status: 'expired' };
+        } else if (outcome.cancelled) {
+            updates = { status: 'rejected' };
+        } else if (outcome.signed && outcome.txid) {
+            ({ updates, verification } = await this.verifySignedTransaction(offer, outcome.txid));
+        } else if (outcome.signed) {
+            updates = { status: 'signed', signed_at: offer.signed_at ?? new Date().toISOString() };
+        }
+
+        if (!updates || (updates.status === offer.status && (updates.tx_hash ?? offer.tx_hash) === offer.tx_hash)) {
+            return { offer, updated: false };
+        }
+
+        const updatedOffer = await this.applyUpdate(offer, updates, verification, {
+            ...context,
+            payload: { xumm: context.payload, ledger: verification ?? null },
+        });
+        return { offer: updatedOffer, updated: true };
+    }
+
+    /**
+     * Transition an offer and apply the side effects on related rows:
+     * - a completed 'accept' row completes the offer it accepted, moves the
+     *   remaining bids for the token over to the new owner and records the sale;
+     * - a completed 'cancel' row cancels the targeted offers the ledger removed.
+     * Follow-on transitions are attributed to the row that caused them.
+     */
+    private async applyUpdate(
+        offer: NFTOfferData,
+        updates: NFTOfferUpdate,
+        verification: TransactionVerification | undefined,
+        context: TransitionContext
+    ): Promise<NFTOfferData> {
+        const updatedOffer = await this.repository.transition(offer, updates, context);
+        const followOn: TransitionContext = {
+            source: context.source,
+            actor: updatedOffer.user_address,
+            payload: { caused_by: updatedOffer.id, tx_hash: updatedOffer.tx_hash },
+        };
+
+        if (updatedOffer.offer_type === 'cancel' && updatedOffer.status === 'completed') {
+            const targets = await this.repository.findByCancelRequestId(updatedOffer.id!);
+            await this.confirmCancellation(targets, updatedOffer.tx_hash!, verification?.deletedOfferIndexes ?? [], followOn);
+        }
+
+        if (updatedOffer.offer_type === 'accept' && updatedOffer.status === 'completed' && updatedOffer.matched_offer_id) {
+            const matched = await this.repository.findById(updatedOffer.matched_offer_id);
+            if (!matched) {
+                throw new Error(`Accepted offer ${updatedOffer.matched_offer_id} not found`);
+            }
+
+            const now = new Date().toISOString();
+            const accepted = await this.repository.transition(matched, {
+                status: 'completed',
+                completed_at: now,
+                settlement_tx_hash: updatedOffer.tx_hash,
+                settled_at: now,
+                matched_offer_id: updatedOffer.id,
+            }, followOn);
+            console.log(`Offer ${accepted.id} accepted by ${updatedOffer.user_address} in tx ${updatedOffer.tx_hash}`);
+
+            // Accepting a listing hands the token to the acceptor; accepting a bid hands it to the bidder
+            const isListing = accepted.offer_type === 'sell';
+            const newOwner = isListing ? updatedOffer.user_address : accepted.user_address;
+            await this.repository.retargetOpenBids(accepted.nft_token_id, newOwner, [accepted.id!], followOn);
+
+            // Direct accepts carry no broker fee; the token's TransferFee still applies
+            await this.sales.recordSale({
+                nft_token_id: accepted.nft_token_id,
+                tx_hash: updatedOffer.tx_hash!,
+                sale_type: 'direct',
+                sell_offer_id: isListing ? accepted.id : undefined,
+                buy_offer_id: isListing ? undefined : accepted.id,
+                seller_address: isListing ? accepted.user_address : updatedOffer.user_address,
+                buyer_address: newOwner,
+                amount: accepted.amount,
+                currency: accepted.currency,
+                issuer: accepted.issuer,
+            });
+        }
+
+        return updatedOffer;
+    }
+
+    /**
+     * Decide the row update for a payload XUMM reports as signed.
+     *
+     * The `txid` is looked up on-ledger: a validated `tesSUCCESS` completes the
+     * offer and records the created NFTokenOffer index, any other validated result fails it with the engine result in
+     * `error_message`, and anything not yet validated stays `signed` so a
+     * later webhook or poll can finish the job.
+     */
+    private async verifySignedTransaction(
+        offer: NFTOfferData,
+        txid: string
+    ): Promise<{ updates: NFTOfferUpdate; verification?: TransactionVerification }> {
+        const now = new Date().toISOString();
+        const updates: NFTOfferUpdate = {
+            status: 'signed',
+            tx_hash: txid,
+            signed_at: offer.signed_at ?? now,
+        };
+
+        if (!this.nftService) {
+            return { updates };
+        }
+
+        const verification = await this.nftService.verifyTransaction(txid);
+        if (!verification.validated) {
+            return { updates, verification };
+        }
+
+        if (verification.result === 'tesSUCCESS') {
+            console.log(`Offer ${offer.id} confirmed in ledger ${verification.ledgerIndex} with offer index ${verification.offerIndex}`);
+            updates.status = 'completed';
+            updates.completed_at = now;
+            updates.offer_index = verification.offerIndex;
+        } else {
+            updates.status = 'failed';
+            updates.error_message = `Transaction failed on ledger: ${verification.result ?? 'unknown result'}`;
+        }
+
+        return { updates, verification };
+    }
+
+    /**
+     * Link offers to the 'cancel' row whose payload will remove them on-ledger.
+     */
+    async requestCancellation(cancelRequestId: string, offers: NFTOfferData[]): Promise<void> {
+        try {
+            for (const offer of offers) {
+                await this.repository.updateById(offer.id!, { cancel_request_id: cancelRequestId });
+            }
+        } catch (error) {
+            console.error('Failed to link offers to cancel request:', error);
+            throw new Error(`Service: Failed to request cancellation - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Move offers to `cancelled` once a validated NFTokenCancelOffer removed them.
+     * Offers whose ledger entry was not deleted by `txHash` are left untouched.
+     */
+    async confirmCancellation(
+        offers: NFTOfferData[],
+        txHash: string,
+        deletedOfferIndexes: string[],
+        context: TransitionContext
+    ): Promise<NFTOfferData[]> {
+        try {
+            const now = new Date().toISOString();
+            const cancelled: NFTOfferData[] = [];
+
+            for (const offer of offers) {
+                if (!offer.offer_index || !deletedOfferIndexes.includes(offer.offer_index)) continue;
+                cancelled.push(await this.repository.transition(offer, {
+                    status: 'cancelled',
+                    cancel_tx_hash: txHash,
+                    cancelled_at: now,
+                }, context));
+            }
+
+            console.log(`Cancelled ${cancelled.length} offer(s) in tx ${txHash}`);
+            return cancelled;
+        } catch (error) {
+            console.error('Failed to confirm cancellation:', error);
+            throw new Error(`Service: Failed to confirm cancellation - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * List offers with filters and pagination
      */
@@ -233,19 +437,32 @@ export class NFTOfferService {
     }
 
     /**
-     * Expire old pending offers
+     * Expire pending offers past their payload expiry and signed offers that
+     * were not submitted within `signedGraceSeconds`
      */
-    async expireOldOffers(): Promise<number> {
+    async expireOldOffers(signedGraceSeconds = config.SIGNED_OFFER_GRACE): Promise<ExpiryResult> {
         try {
-            const expiredCount = await this.repository.expireOldOffers();
-            console.log(`Expired ${expiredCount} old offers`);
-            return expiredCount;
+            const result = await this.repository.expireOldOffers(signedGraceSeconds);
+            console.log(`Expired ${result.pending_expired} pending and ${result.signed_expired} signed offers`);
+            return result;
         } catch (error) {
             console.error('Failed to expire old offers:', error);
             throw new Error(`Service: Failed to expire offers - ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
+    /**
+     * Get the audited status history of an offer, oldest first
+     */
+    async getOfferEvents(offerId: string): Promise<NFTOfferEvent[]> {
+        try {
+            return await this.repository.findEvents(offerId);
+        } catch (error) {
+            console.error('Failed to get offer events:', error);
+            throw new Error(`Service: Failed to get offer events - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Get offer statistics
      */
@@ -0,0 +1,266 @@
+import type { NFTOffer } from "npm:xrpl@4.4.0";
+import { NFTOfferRepository } from "./repository.ts";
+import type {
+    NFTOfferData,
+    SettlementMatch,
+    SettlementResult,
+    TransitionContext
+} from "./type.ts";
+import type NftService from "../nft/service.ts";
+import type TrustLineService from "../trustline/service.ts";
+import { amountMatches, comparePrices, sameAsset, subtractPrices, toLedgerAmount, XRP } from "../utils/amount.ts";
+import type { StoredPrice } from "../utils/amount.ts";
+import { commissionFor } from "../sales/fees.ts";
+import { SalesService } from "../sales/service.ts";
+import config from "../config/index.ts";
+
+/**
+ * Settlement engine for broker mode.
+ *
+ * create-offer points every user offer's `Destination` at the backend wallet,
+ * so neither side can accept directly. This class pairs a live sell offer
+ * with a live buy offer for the same token, submits the brokered
+ * NFTokenAcceptOffer through `NftService` and marks both rows as settled.
+ * The marketplace commission on the buy amount is taken as NFTokenBrokerFee
+ * and every settlement is recorded in the sales ledger. The broker keeps only
+ * that commission, not the spread: when the bid exceeds the ask plus the
+ * commission, the difference goes to the seller.
+ *
+ * An IOU broker fee is paid into the broker wallet's own trust line, so the
+ * backend wallet needs a trust line for every currency and issuer it brokers.
+ * Without one the pair is still settled, but without a fee.
+ */
+export class NFTOfferSettlementService {
+    private repository: NFTOfferRepository;
+    private sales: SalesService;
+
+    /**
+     * @param nftService NftService bound to the backend (broker) wallet.
+     * @param brokerAddress Address the offers must name as `Destination`.
+     * @param trustLineService Checks the broker can receive an IOU fee.
+     * @param commissionBps Commission in basis points of the buy amount.
+     */
+    constructor(
+        private nftService: NftService,
+        private brokerAddress: string,
+        private trustLineService: TrustLineService,
+        private commissionBps = config.MARKETPLACE_COMMISSION_BPS,
+    ) {
+        this.repository = new NFTOfferRepository();
+        this.sales = new SalesService();
+    }
+
+    /**
+     * Find the best sell/buy pair for a token that is still live on-ledger.
+     *
+     * Sell offers are taken cheapest first and buy offers highest first; ties
+     * go to the older row. A pair is compatible when both are priced in the
+     * same asset (XRP, or the same IOU currency and issuer), the buyer is not
+     * the seller, the bid was addressed to the seller and the bid covers the ask
+     * plus the commission. Returns null when nothing can be brokered.
+     */
+    async findMatch(nftTokenId: string): Promise<SettlementMatch | null> {
+        // Offers past their on-ledger Expiration would fail with tecEXPIRED
+        const now = Date.now();
+        const candidates = (await this.repository.findSettlementCandidates(nftTokenId))
+            .filter(o => !o.offer_expires_at || Date.parse(o.offer_expires_at) > now);
+        const sellRows = candidates.filter(o => o.offer_type === 'sell');
+        const buyRows = candidates.filter(o => o.offer_type === 'buy');
+        if (sellRows.length === 0 || buyRows.length === 0) return null;
+
+        const [ledgerSells, ledgerBuys] = await Promise.all([
+            this.nftService.fetchSellOffers(nftTokenId),
+            this.nftService.fetchBuyOffers(nftTokenId),
+        ]);
+
+        const liveSells = this.attachLedgerIndex(sellRows, ledgerSells)
+            .sort((a, b) => compareWithinAsset(a.row, b.row));
+        const liveBuys = this.attachLedgerIndex(buyRows, ledgerBuys)
+            .sort((a, b) => compareWithinAsset(b.row, a.row));
+
+        for (const sell of liveSells) {
+            for (const buy of liveBuys) {
+                if (!sameAsset(buy.row, sell.row)) continue;
+                if (buy.row.user_address === sell.row.user_address) continue;
+                if (buy.row.owner_address && buy.row.owner_address !== sell.row.user_address) continue;
+                // The ledger requires what is left for the seller to cover the ask
+                let brokerFee = commissionFor(buy.row, this.commissionBps);
+                if (Number(brokerFee) > 0 && !await this.brokerCanReceive(buy.row)) {
+                    console.warn(`Broker has no usable ${buy.row.currency} trust line for issuer ${buy.row.issuer}; settling ${nftTokenId} without a fee`);
+                    brokerFee = "0";
+                }
+                const sellerGets = { ...buy.row, amount: subtractPrices(buy.row, { ...buy.row, amount: brokerFee }) };
+                if (comparePrices(sellerGets, sell.row) < 0) continue;
+
+                return {
+                    sellOffer: sell.row,
+                    buyOffer: buy.row,
+                    sellOfferIndex: sell.index,
+                    buyOfferIndex: buy.index,
+                    brokerFee,
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Broker the best available match for a token and record the outcome.
+     * Returns null when there is no compatible pair.
+     */
+    async settleToken(nftTokenId: string): Promise<SettlementResult | null> {
+        const match = await this.findMatch(nftTokenId);
+        if (!match) return null;
+
+        const brokerFee = toLedgerAmount({ ...match.sellOffer, amount: match.brokerFee });
+        const txHash = await this.nftService.brokerOffers(match.sellOfferIndex, match.buyOfferIndex, brokerFee);
+        const now = new Date().toISOString();
+        const context: TransitionContext = {
+            source: 'cron',
+            actor: this.brokerAddress,
+            payload: {
+                tx_hash: txHash,
+                sell_offer_index: match.sellOfferIndex,
+                buy_offer_index: match.buyOfferIndex,
+                broker_fee: match.brokerFee,
+            },
+        };
+
+        await this.repository.transition(match.sellOffer, {
+            status: 'completed',
+            completed_at: now,
+            settlement_tx_hash: txHash,
+            settled_at: now,
+            matched_offer_id: match.buyOffer.id,
+        }, context);
+        await this.repository.transition(match.buyOffer, {
+            status: 'completed',
+            completed_at: now,
+            settlement_tx_hash: txHash,
+            settled_at: now,
+            matched_offer_id: match.sellOffer.id,
+        }, context);
+
+        await this.repository.retargetOpenBids(nftTokenId, match.buyOffer.user_address, [match.sellOffer.id!, match.buyOffer.id!], context);
+
+        await this.sales.recordSale({
+            nft_token_id: nftTokenId,
+            tx_hash: txHash,
+            sale_type: 'brokered',
+            sell_offer_id: match.sellOffer.id,
+            buy_offer_id: match.buyOffer.id,
+            seller_address: match.sellOffer.user_address,
+            buyer_address: match.buyOffer.user_address,
+            amount: match.buyOffer.amount,
+            currency: match.buyOffer.currency,
+            issuer: match.buyOffer.issuer,
+            platform_fee: match.brokerFee,
+        });
+
+        console.log(`Settled token ${nftTokenId}: sell ${match.sellOffer.id} / buy ${match.buyOffer.id} in tx ${txHash}`);
+
+        return {
+            nft_token_id: nftTokenId,
+            sell_offer_id: match.sellOffer.id!,
+            buy_offer_id: match.buyOffer.id!,
+            broker_fee: match.brokerFee,
+            currency: match.sellOffer.currency ?? 'XRP',
+            issuer: match.sellOffer.issuer,
+            tx_hash: txHash,
+        };
+    }
+
+    /**
+     * Settle right after a sell or buy row is validated on-ledger, so a
+     * brokered purchase does not wait for the next settle-offers run.
+     * Failures are logged and left for settle-offers to retry.
+     */
+    async settleAfterCompletion(offer: NFTOfferData): Promise<SettlementResult | null> {
+        if (offer.status !== 'completed' || offer.settlement_tx_hash) return null;
+        if (offer.offer_type !== 'sell' && offer.offer_type !== 'buy') return null;
+        try {
+            return await this.settleToken(offer.nft_token_id);
+        } catch (error) {
+            console.error(`Settlement after offer ${offer.id} failed:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Try to settle every token that has both an unsettled sell and buy row.
+     * A failure on one token is logged and does not stop the others.
+     */
+    async settleAll(): Promise<{ settled: SettlementResult[]; failed: { nft_token_id: string; error: string }[] }> {
+        const candidates = await this.repository.findSettlementCandidates();
+
+        const sides = new Map<string, Set<string>>();
+        for (const offer of candidates) {
+            if (!sides.has(offer.nft_token_id)) sides.set(offer.nft_token_id, new Set());
+            sides.get(offer.nft_token_id)!.add(offer.offer_type);
+        }
+
+        const settled: SettlementResult[] = [];
+        const failed: { nft_token_id: string; error: string }[] = [];
+
+        for (const [nftTokenId, types] of sides) {
+            if (!types.has('sell') || !types.has('buy')) continue;
+            try {
+                const result = await this.settleToken(nftTokenId);
+                if (result) settled.push(result);
+            } catch (error) {
+                console.error(`Failed to settle token ${nftTokenId}:`, error);
+                failed.push({ nft_token_id: nftTokenId, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        return { settled, failed };
+    }
+
+    /**
+     * Whether the broker wallet can be paid a fee in this price's asset. XRP
+     * always can; an IOU needs the broker's own trust line to the issuer.
+     */
+    private async brokerCanReceive(price: StoredPrice): Promise<boolean> {
+        if (!price.currency || price.currency === XRP || !price.issuer) return true;
+        const error = await this.trustLineService.checkCanReceive(this.brokerAddress, price.currency, price.issuer);
+        return error === null;
+    }
+
+    /**
+     * Pair DB rows with the ledger offers they created. Rows with a stored
+     * `offer_index` are matched by index; older rows fall back to offers owned
+     * by the row's user, for the same amount and addressed to the broker.
+     * Each ledger offer is claimed by at most one row.
+     */
+    private attachLedgerIndex(rows: NFTOfferData[], ledgerOffers: NFTOffer[]): { row: NFTOfferData; index: string }[] {
+        const claimed = new Set<string>();
+        const result: { row: NFTOfferData; index: string }[] = [];
+
+        // Indexed rows go first so a heuristic match cannot steal their offer
+        const ordered = [...rows].sort((a, b) => Number(!a.offer_index) - Number(!b.offer_index));
+
+        for (const row of ordered) {
+            const offer = ledgerOffers.find(o =>
+                !claimed.has(o.nft_offer_index) &&
+                (!row.offer_index || o.nft_offer_index === row.offer_index) &&
+                amountMatches(o.amount, row) &&
+                o.owner === row.user_address &&
+                o.destination === this.brokerAddress
+            );
+            if (!offer) continue;
+            claimed.add(offer.nft_offer_index);
+            result.push({ row, index: offer.nft_offer_index });
+        }
+
+        return result;
+    }
+}
+
+// Orders rows by asset first, then by price within the same asset
+function compareWithinAsset(a: NFTOfferData, b: NFTOfferData): number {
+    if (!sameAsset(a, b)) {
+        return `${a.currency ?? 'XRP'}.${a.issuer ?? ''}`.localeCompare(`${b.currency ?? 'XRP'}.${b.issuer ?? ''}`);
+    }
+    return comparePrices(a, b);
+}
@@ -0,0 +1,37 @@
+import type { NFTOfferStatus } from "./type.ts";
+
+/**
+ * Legal status transitions for an nft_offers row.
+ *
+ * - pending: payload created, waiting for the user to sign in XUMM
+ * - signed: signed in XUMM, transaction not yet validated on-ledger
+ * - completed: transaction validated; the NFTokenOffer (or accept/cancel) is on-ledger
+ * - rejected / expired / failed / cancelled: terminal
+ *
+ * A completed offer can still leave the book: it is cancelled by an
+ * NFTokenCancelOffer, failed when it can no longer be filled, or expired
+ * when its ledger Expiration passes. Staying in the same status is always
+ * allowed, e.g. a completed offer being settled.
+ */
+export const OFFER_TRANSITIONS: Readonly<Record<NFTOfferStatus, readonly NFTOfferStatus[]>> = {
+    pending: ['signed', 'completed', 'rejected', 'expired', 'failed', 'cancelled'],
+    signed: ['completed', 'failed', 'expired', 'cancelled'],
+    completed: ['cancelled', 'failed', 'expired'],
+    rejected: [],
+    expired: [],
+    failed: [],
+    cancelled: [],
+};
+
+export function canTransition(from: NFTOfferStatus, to: NFTOfferStatus): boolean {
+    return from === to || OFFER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw when `from -> to` is not in the transition table.
+ */
+export function assertTransition(from: NFTOfferStatus, to: NFTOfferStatus): void {
+    if (!canTransition(from, to)) {
+        throw new Error(`Illegal offer status transition: ${from} -> ${to}`);
+    }
+}
@@ -1,53 +1,95 @@
+import type { VerificationStatus } from "../attestation/type.ts";
+
 /**
  * Type definitions for NFT Offer system
  * Contains all interfaces and types used by repository and service layers
  */
 
+// Legal moves between these are defined in stateMachine.ts
+export type NFTOfferStatus = 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled';
+
+// Where a status transition originated, recorded in nft_offer_events
+export type NFTOfferEventSource = 'webhook' | 'poll' | 'cron' | 'admin' | 'api';
+
 export interface NFTOfferData {
     id?: string;
     nft_token_id: string;
-    offer_type: 'sell' | 'buy';
+    // 'accept' rows track a user accepting another row's offer (see matched_offer_id);
+    // 'cancel' rows track an NFTokenCancelOffer payload (targets point back via cancel_request_id)
+    offer_type: 'sell' | 'buy' | 'accept' | 'cancel';
     user_address: string;
+    // Drops when currency is 'XRP', otherwise the IOU value
     amount: string;
+    currency?: string;
+    // IOU issuer; unset for XRP
+    issuer?: string;
     owner_address?: string;
     payload_id: string;
     payload_created_at?: string;
     payload_expires_at?: string;
-    status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+    // On-ledger Expiration of the created NFTokenOffer; unset = never expires
+    offer_expires_at?: string;
+    status: NFTOfferStatus;
     tx_hash?: string;
+    offer_index?: string;
     signed_at?: string;
     completed_at?: string;
     deep_link?: string;
     qr_code?: string;
     pushed?: boolean;
     error_message?: string;
+    settlement_tx_hash?: string;
+    settled_at?: string;
+    matched_offer_id?: string;
+    cancel_request_id?: string;
+    cancel_tx_hash?: string;
+    cancelled_at?: string;
     created_at?: string;
     updated_at?: string;
+    // Token's status from the nft_listings view; only set on sell offer listings
+    readonly verification_status?: VerificationStatus;
 }
 
 export interface NFTOfferFilter {
     user_address?: string;
     nft_token_id?: string;
-    offer_type?: 'sell' | 'buy';
-    status?: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+    offer_type?: 'sell' | 'buy' | 'accept' | 'cancel';
+    status?: NFTOfferStatus;
+    // Leave out offers whose on-ledger Expiration has passed
+    exclude_expired?: boolean;
+    // Token verification status; sell offer listings only
+    verification_status?: VerificationStatus;
     limit?: number;
     offset?: number;
 }
 
 export interface NFTOfferUpdate {
-    status?: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+    status?: NFTOfferStatus;
     tx_hash?: string;
+    offer_index?: string;
     signed_at?: string;
     completed_at?: string;
     error_message?: string;
+    settlement_tx_hash?: string;
+    settled_at?: string;
+    matched_offer_id?: string;
+    cancel_request_id?: string;
+    cancel_tx_hash?: string;
+    cancelled_at?: string;
 }
 
 export interface CreateOfferInput {
     nft_token_id: string;
-    offer_type: 'sell' | 'buy';
+    offer_type: 'sell' | 'buy' | 'accept' | 'cancel';
     user_address: string;
     amount: string;
+    // Defaults to 'XRP' (amount in drops)
+    currency?: string;
+    issuer?: string;
     owner_address?: string;
+    offer_expires_at?: string;
+    // For 'accept' rows: the offer being accepted
+    matched_offer_id?: string;
     deep_link?: string;
     qr_code?: string;
     pushed?: boolean;
@@ -58,7 +100,86 @@ export interface OfferStatusResult {
     updated: boolean;
 }
 
+// A sell/buy pair the broker can settle with one NFTokenAcceptOffer
+export interface SettlementMatch {
+    sellOffer: NFTOfferData;
+    buyOffer: NFTOfferData;
+    sellOfferIndex: string;
+    buyOfferIndex: string;
+    // Marketplace commission on the buy amount, in the offers' currency ("0" when disabled)
+    brokerFee: string;
+}
+
+export interface SettlementResult {
+    nft_token_id: string;
+    sell_offer_id: string;
+    buy_offer_id: string;
+    broker_fee: string;
+    currency: string;
+    issuer?: string;
+    tx_hash: string;
+}
+
+// Who and what caused a status transition
+export interface TransitionContext {
+    source: NFTOfferEventSource;
+    // Wallet address or job name that triggered the move
+    actor?: string;
+    // Raw input the decision was based on (webhook body, XUMM status, ledger result)
+    payload?: unknown;
+}
+
+// One row of nft_offer_events; from_status is null for the creation event
+export interface NFTOfferEvent {
+    id?: string;
+    offer_id: string;
+    from_status: NFTOfferStatus | null;
+    to_status: NFTOfferStatus;
+    source: NFTOfferEventSource;
+    actor?: string;
+    payload?: unknown;
+    created_at?: string;
+}
+
+/**
+ * Kinds of drift between nft_offers and the ledger:
+ * - consumed / cancelled / burned: the row's ledger offer was deleted by an accept, cancel or burn
+ * - expired: the ledger offer is still there but past its Expiration
+ * - missing: the ledger offer is gone and no deleting transaction was found
+ * - unconfirmed: a pending/signed row whose offer is already live on-ledger
+ * - untracked: a live ledger offer with no open row (unknown, or the row is already terminal)
+ */
+export type ReconciliationKind = 'consumed' | 'cancelled' | 'burned' | 'expired' | 'missing' | 'unconfirmed' | 'untracked';
+
+export interface ReconciliationDiscrepancy {
+    kind: ReconciliationKind;
+    nft_token_id: string;
+    offer_id?: string;
+    offer_index?: string;
+    // Row status before any fix was applied
+    status?: NFTOfferStatus;
+    // Transaction that deleted the ledger offer, when known
+    tx_hash?: string;
+    // True when the row was updated to match the ledger
+    fixed: boolean;
+    detail?: string;
+}
+
+export interface ReconciliationReport {
+    tokens_checked: number;
+    offers_checked: number;
+    discrepancies: ReconciliationDiscrepancy[];
+    failed: { nft_token_id: string; error: string }[];
+}
+
 // Repository method return types
+// Rows moved to expired by one expire_old_offers() run
+export interface ExpiryResult {
+    pending_expired: number;
+    // Signed in XUMM but never submitted within the grace period
+    signed_expired: number;
+}
+
 export interface FindManyResult {
     offers: NFTOfferData[];
     count: number;
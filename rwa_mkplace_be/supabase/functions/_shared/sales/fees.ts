@@ -0,0 +1,66 @@
+import { applyRate, comparePrices, subtractPrices, XRP } from "../utils/amount.ts";
+import type { StoredPrice } from "../utils/amount.ts";
+import type { SaleFees } from "./type.ts";
+
+// TransferFee is expressed in 1/100000 (0.001%) units, up to 50000 (50%)
+export const TRANSFER_FEE_DENOMINATOR = 100_000;
+export const MAX_TRANSFER_FEE = 50_000;
+// Marketplace commission is configured in basis points
+export const BPS_DENOMINATOR = 10_000;
+
+/**
+ * Platform commission on a price, used as NFTokenBrokerFee
+ */
+export function commissionFor(price: StoredPrice, commissionBps: number): string {
+    return commissionBps > 0 ? applyRate(price, commissionBps, BPS_DENOMINATOR) : "0";
+}
+
+/**
+ * What a seller is left with out of a bid once the commission is taken
+ */
+export function askForBid(bid: StoredPrice, commissionBps: number): string {
+    return subtractPrices(bid, { ...bid, amount: commissionFor(bid, commissionBps) });
+}
+
+/**
+ * Smallest bid (up to IOU rounding) that still leaves the seller `ask` after
+ * the commission, i.e. the buy amount a brokered purchase must offer.
+ */
+export function bidCoveringAsk(ask: StoredPrice, commissionBps: number): string {
+    if (commissionBps <= 0) return ask.amount;
+    const keep = BPS_DENOMINATOR - commissionBps;
+    const isXrp = (ask.currency ?? XRP) === XRP;
+    let bid = isXrp
+        ? ((BigInt(ask.amount) * BigInt(BPS_DENOMINATOR) + BigInt(keep - 1)) / BigInt(keep)).toString()
+        : applyRate(ask, BPS_DENOMINATOR, keep);
+    // Rounding in the commission can leave the seller just short; step up until covered
+    while (comparePrices({ ...ask, amount: askForBid({ ...ask, amount: bid }, commissionBps) }, ask) < 0) {
+        bid = isXrp
+            ? (BigInt(bid) + 1n).toString()
+            : applyRate({ ...ask, amount: bid }, BPS_DENOMINATOR + 1, BPS_DENOMINATOR);
+    }
+    return bid;
+}
+
+/**
+ * Split what the buyer paid the way the ledger does for an NFTokenAcceptOffer:
+ * the broker fee comes off the top, the issuer's TransferFee is taken from
+ * what remains, and the seller keeps the rest. The issuer pays no royalty on
+ * its own sales.
+ *
+ * @param gross Amount paid by the buyer.
+ * @param platformFee NFTokenBrokerFee in the same asset ("0" when not brokered).
+ * @param transferFee Token TransferFee in 1/100000 units.
+ * @param sellerIsIssuer Whether the seller issued the token.
+ */
+export function computeSaleFees(gross: StoredPrice, platformFee: string, transferFee: number, sellerIsIssuer: boolean): SaleFees {
+    const afterPlatform = subtractPrices(gross, { ...gross, amount: platformFee });
+    const royaltyFee = sellerIsIssuer || transferFee === 0
+        ? "0"
+        : applyRate({ ...gross, amount: afterPlatform }, transferFee, TRANSFER_FEE_DENOMINATOR);
+    return {
+        platform_fee: platformFee,
+        royalty_fee: royaltyFee,
+        seller_proceeds: subtractPrices({ ...gross, amount: afterPlatform }, { ...gross, amount: royaltyFee }),
+    };
+}
@@ -0,0 +1,24 @@
+/**
+ * Sales module exports
+ * Central export point for the sales ledger types, fee helpers, repository and service
+ */
+
+// Export all types
+export type {
+    SaleType,
+    SaleRecord,
+    SaleFees,
+    RecordSaleInput,
+    SaleRole,
+    SaleFilter,
+    FindSalesResult
+} from "./type.ts";
+
+// Export fee helpers
+export { askForBid, bidCoveringAsk, commissionFor, computeSaleFees, TRANSFER_FEE_DENOMINATOR, MAX_TRANSFER_FEE, BPS_DENOMINATOR } from "./fees.ts";
+
+// Export repository class
+export { SalesRepository } from "./repository.ts";
+
+// Export service class
+export { SalesService } from "./service.ts";
@@ -0,0 +1,87 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type {
+    SaleRecord,
+    SaleFilter,
+    FindSalesResult
+} from "./type.ts";
+
+/**
+ * Repository class for sales database operations
+ * Handles all CRUD operations for the sales table
+ */
+export class SalesRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Record a sale; a sale already recorded for the same tx_hash is kept as is
+     */
+    async record(sale: Omit<SaleRecord, 'id' | 'created_at'>): Promise<void> {
+        const { error } = await this.supabase
+            .from('sales')
+            .upsert([sale], { onConflict: 'tx_hash', ignoreDuplicates: true });
+
+        if (error) {
+            console.error('Error recording sale:', error);
+            throw new Error(`Failed to record sale: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find sales with filters and pagination, newest first
+     */
+    async findMany(filter: SaleFilter = {}): Promise<FindSalesResult> {
+        let query = this.supabase
+            .from('sales')
+            .select('*', { count: 'exact' });
+
+        if (filter.wallet) {
+            switch (filter.role) {
+                case 'seller':
+                    query = query.eq('seller_address', filter.wallet);
+                    break;
+                case 'buyer':
+                    query = query.eq('buyer_address', filter.wallet);
+                    break;
+                case 'royalty':
+                    query = query.eq('royalty_address', filter.wallet);
+                    break;
+                default:
+                    query = query.or(`seller_address.eq.${filter.wallet},buyer_address.eq.${filter.wallet},royalty_address.eq.${filter.wallet}`);
+            }
+        }
+
+        if (filter.nft_token_id) {
+            query = query.eq('nft_token_id', filter.nft_token_id);
+        }
+
+        if (filter.sold_after) {
+            query = query.gte('sold_at', filter.sold_after);
+        }
+
+        const limit = Math.min(filter.limit || 50, 100); // Cap at 100
+        const offset = filter.offset || 0;
+
+        query = query
+            .order('sold_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            console.error('Error finding sales:', error);
+            throw new Error(`Failed to find sales: ${error.message}`);
+        }
+
+        return {
+            sales: data || [],
+            count: count || 0
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import { parseNFTokenID } from "npm:xrpl@4.4.0";
+import { SalesRepository } from "./repository.ts";
+import { computeSaleFees } from "./fees.ts";
+import type { RecordSaleInput, SaleRecord } from "./type.ts";
+import { NFTCatalogRepository } from "../nftCatalog/repository.ts";
+import { XRP } from "../utils/amount.ts";
+
+/**
+ * Service class for the sales ledger.
+ *
+ * Every completed sale is stored with its fee breakdown. The royalty rate and
+ * issuer are read from the NFTokenID itself, so tokens minted elsewhere are
+ * handled too; the royalty is attributed to the catalogue's creator when the
+ * token was minted through create-nft (the backend wallet is then the
+ * on-ledger issuer that receives it).
+ */
+export class SalesService {
+    private repository: SalesRepository;
+    private catalog: NFTCatalogRepository;
+
+    constructor() {
+        this.repository = new SalesRepository();
+        this.catalog = new NFTCatalogRepository();
+    }
+
+    /**
+     * Record a completed sale. The sale already happened on-ledger, so a
+     * failure is logged and null returned rather than thrown.
+     */
+    async recordSale(input: RecordSaleInput): Promise<SaleRecord | null> {
+        try {
+            const { TransferFee: transferFee, Issuer: tokenIssuer } = parseNFTokenID(input.nft_token_id);
+            const nft = await this.catalog.findByTokenId(input.nft_token_id);
+
+            const currency = input.currency ?? XRP;
+            const price = { amount: input.amount, currency, issuer: input.issuer };
+            const fees = computeSaleFees(price, input.platform_fee ?? "0", transferFee, input.seller_address === tokenIssuer);
+
+            const sale: SaleRecord = {
+                nft_token_id: input.nft_token_id,
+                tx_hash: input.tx_hash,
+                sale_type: input.sale_type,
+                sell_offer_id: input.sell_offer_id,
+                buy_offer_id: input.buy_offer_id,
+                seller_address: input.seller_address,
+                buyer_address: input.buyer_address,
+                currency,
+                issuer: input.issuer,
+                gross_amount: input.amount,
+                ...fees,
+                royalty_address: transferFee > 0 ? (nft?.creator_address ?? tokenIssuer) : undefined,
+                transfer_fee: transferFee,
+            };
+
+            await this.repository.record(sale);
+            console.log(`Recorded sale of ${input.nft_token_id} in tx ${input.tx_hash}: ${JSON.stringify(fees)}`);
+            return sale;
+        } catch (error) {
+            console.error(`Failed to record sale for tx ${input.tx_hash}:`, error);
+            return null;
+        }
+    }
+}
+
+export default SalesService;
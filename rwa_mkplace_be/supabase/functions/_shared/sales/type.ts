@@ -0,0 +1,75 @@
+/**
+ * Type definitions for the sales ledger
+ * Contains the interfaces used by the sales table repository and service
+ */
+
+// brokered: settle-offers matched a sell and a buy offer; direct: buy-now / accept-bid
+export type SaleType = 'brokered' | 'direct';
+
+export interface SaleRecord {
+    id?: string;
+    nft_token_id: string;
+    tx_hash: string;
+    sale_type: SaleType;
+    sell_offer_id?: string;
+    buy_offer_id?: string;
+    seller_address: string;
+    buyer_address: string;
+    // 'XRP' (amounts in drops) or the IOU currency
+    currency: string;
+    issuer?: string;
+    gross_amount: string;
+    // NFTokenBrokerFee kept by the platform
+    platform_fee: string;
+    // TransferFee paid to the token issuer
+    royalty_fee: string;
+    royalty_address?: string;
+    // Token TransferFee in 1/100000 units
+    transfer_fee: number;
+    seller_proceeds: string;
+    sold_at?: string;
+    created_at?: string;
+}
+
+// What the sale paid out, in the sale's asset
+export interface SaleFees {
+    platform_fee: string;
+    royalty_fee: string;
+    seller_proceeds: string;
+}
+
+// A completed sale as reported by settlement or an accepted offer
+export interface RecordSaleInput {
+    nft_token_id: string;
+    tx_hash: string;
+    sale_type: SaleType;
+    sell_offer_id?: string;
+    buy_offer_id?: string;
+    seller_address: string;
+    buyer_address: string;
+    amount: string;
+    currency?: string;
+    issuer?: string;
+    // Broker fee taken by the platform; "0" for direct sales
+    platform_fee?: string;
+}
+
+// Which side of a sale the wallet filter matches
+export type SaleRole = 'seller' | 'buyer' | 'royalty';
+
+export interface SaleFilter {
+    wallet?: string;
+    // Unset = any role
+    role?: SaleRole;
+    nft_token_id?: string;
+    // Only sales at or after this time (ISO 8601)
+    sold_after?: string;
+    limit?: number;
+    offset?: number;
+}
+
+// Repository method return types
+export interface FindSalesResult {
+    sales: SaleRecord[];
+    count: number;
+}
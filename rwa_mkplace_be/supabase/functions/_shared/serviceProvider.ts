@@ -1,14 +1,21 @@
 import { Client, Wallet } from "npm:xrpl@4.4.0";
 import NftService from "./nft/service.ts";
+import EscrowService from "./escrow/service.ts";
+import TrustLineService from "./trustline/service.ts";
 import XummService from "./xumm/index.ts";
 import config, { getClioUrl } from "./config/index.ts";
 import { getNetworkUrl, getClientOptions } from "./config/index.ts";
 
+// The XUMM app's webhook URL is compared with WEBHOOK_URL once per isolate
+let webhookUrlChecked = false;
+
 export class ServiceProvider {
     private client: Client | null = null;
     private clioClient: Client | null = null;
     private backendWallet: Wallet | null = null;
     private nftService: NftService | null = null;
+    private trustLineService: TrustLineService | null = null;
+    private escrowService: EscrowService | null = null;
     private xummService: XummService | null = null;
 
     async getClient(): Promise<Client> {
@@ -44,12 +51,36 @@ export class ServiceProvider {
         return this.nftService;
     }
 
+    async getTrustLineService(): Promise<TrustLineService> {
+        if (this.trustLineService) return this.trustLineService;
+        this.trustLineService = new TrustLineService(await this.getClient());
+        return this.trustLineService;
+    }
+
+    async getEscrowService(): Promise<EscrowService> {
+        if (this.escrowService) return this.escrowService;
+        this.escrowService = new EscrowService(await this.getClient(), this.getBackendWallet());
+        return this.escrowService;
+    }
+
     getXummService(): XummService {
         if (this.xummService) return this.xummService;
         if (!config.XUMM_API_KEY || !config.XUMM_API_SECRET) {
             throw new Error("XUMM API key/secret not configured");
         }
         this.xummService = new XummService(config.XUMM_API_KEY, config.XUMM_API_SECRET);
+
+        if (!webhookUrlChecked && config.WEBHOOK_URL) {
+            webhookUrlChecked = true;
+            this.xummService.checkWebhookUrl()
+                .then((check) => {
+                    if (!check.matches) {
+                        console.warn(`XUMM app webhook is "${check.configured ?? "unset"}", expected WEBHOOK_URL "${check.expected}"`);
+                    }
+                })
+                .catch((err) => console.warn("Error checking XUMM webhook URL:", err));
+        }
+
         return this.xummService;
     }
 
@@ -71,6 +102,8 @@ export class ServiceProvider {
             this.clioClient = null;
         }
         this.nftService = null;
+        this.trustLineService = null;
+        this.escrowService = null;
         this.xummService = null;
         this.backendWallet = null;
     }
@@ -0,0 +1,82 @@
+import type { AccountLinesRequest, AccountLinesResponse, Client } from "npm:xrpl@4.4.0";
+import type { TrustLine } from "./type.ts";
+
+/**
+ * TrustLineService - reads XRPL trust lines for issued-currency (IOU) prices.
+ *
+ * Usage: provide a connected `client`.
+ */
+export class TrustLineService {
+    /**
+     * @param client Connected xrpl Client used for `account_lines` requests.
+     */
+    constructor(private client: Client) { }
+
+    /**
+     * Find the trust line `account` holds for `currency` issued by `issuer`.
+     *
+     * Behaviour and notes:
+     * - Returns null when there is no such line or `account` is not funded (`actNotFound`).
+     * - An issuer has no trust line to itself; callers should treat the issuer as able to pay and receive.
+     *
+     * @param account Holder account.
+     * @param currency Currency code (3-letter or 40-char hex).
+     * @param issuer Issuing account.
+     * @returns Promise resolving to the TrustLine or null.
+     */
+    async getTrustLine(account: string, currency: string, issuer: string): Promise<TrustLine | null> {
+        const request: AccountLinesRequest = { command: "account_lines", account, peer: issuer, ledger_index: "validated" };
+        let marker: unknown;
+        try {
+            do {
+                const resp: AccountLinesResponse = await this.client.request({ ...request, marker });
+                const line = resp.result.lines.find((l) => l.currency === currency);
+                if (line) {
+                    return {
+                        account,
+                        currency,
+                        issuer,
+                        balance: line.balance,
+                        limit: line.limit,
+                        frozen: Boolean(line.freeze || line.freeze_peer),
+                    };
+                }
+                marker = resp.result.marker;
+            } while (marker);
+        } catch (err) {
+            if ((err as { data?: { error?: string } })?.data?.error === "actNotFound") return null;
+            throw err;
+        }
+        return null;
+    }
+
+    /**
+     * Check that `account` can pay `value` of an IOU: a trust line that is
+     * not frozen with at least that balance. Returns an error message, or
+     * null when the account can pay.
+     */
+    async checkCanPay(account: string, currency: string, issuer: string, value: string): Promise<string | null> {
+        if (account === issuer) return null;
+        const line = await this.getTrustLine(account, currency, issuer);
+        if (!line) return `No trust line for ${currency} issued by ${issuer}`;
+        if (line.frozen) return `Trust line for ${currency} issued by ${issuer} is frozen`;
+        if (Number(line.balance) < Number(value)) {
+            return `Insufficient ${currency} balance: holds ${line.balance}, needs ${value}`;
+        }
+        return null;
+    }
+
+    /**
+     * Check that `account` can receive an IOU: a trust line that is not
+     * frozen. Returns an error message, or null when it can receive.
+     */
+    async checkCanReceive(account: string, currency: string, issuer: string): Promise<string | null> {
+        if (account === issuer) return null;
+        const line = await this.getTrustLine(account, currency, issuer);
+        if (!line) return `No trust line for ${currency} issued by ${issuer}`;
+        if (line.frozen) return `Trust line for ${currency} issued by ${issuer} is frozen`;
+        return null;
+    }
+}
+
+export default TrustLineService;
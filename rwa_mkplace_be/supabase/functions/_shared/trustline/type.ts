@@ -0,0 +1,14 @@
+/**
+ * A trust line as seen from `account`.
+ * - balance: what `account` holds of the currency (negative when it owes the issuer)
+ * - limit: the most `account` is willing to hold
+ * - frozen: set when either side froze the line, which blocks payments over it
+ */
+export type TrustLine = {
+    account: string;
+    currency: string;
+    issuer: string;
+    balance: string;
+    limit: string;
+    frozen: boolean;
+};
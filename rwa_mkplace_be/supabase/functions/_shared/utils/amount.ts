@@ -0,0 +1,132 @@
+// Helpers for offer prices, which are either XRP drops or an issued currency (IOU).
+// nft_offers stores a price as `amount` plus `currency` ('XRP' for drops) and `issuer`.
+
+import { isValidClassicAddress } from "npm:xrpl@4.4.0";
+import type { Amount, IssuedCurrencyAmount } from "npm:xrpl@4.4.0";
+
+export const XRP = "XRP";
+
+// Price columns as stored on an nft_offers row
+export type StoredPrice = {
+    amount: string;
+    currency?: string;
+    issuer?: string;
+};
+
+// IOU values keep 15 significant digits on-ledger
+const IOU_PRECISION = 15;
+
+export function isIssuedAmount(amount: Amount): amount is IssuedCurrencyAmount {
+    return typeof amount === "object" && "issuer" in amount;
+}
+
+/**
+ * Ledger `Amount` for a stored price: drops as a string for XRP, an
+ * `{ currency, issuer, value }` object for IOUs.
+ */
+export function toLedgerAmount(price: StoredPrice): Amount {
+    if (!price.currency || price.currency === XRP) return price.amount;
+    return { currency: price.currency, issuer: price.issuer!, value: price.amount };
+}
+
+/**
+ * Stored columns for a ledger `Amount`.
+ */
+export function toStoredPrice(amount: Amount): Required<Pick<StoredPrice, "amount" | "currency">> & { issuer?: string } {
+    if (isIssuedAmount(amount)) {
+        return { amount: amount.value, currency: amount.currency, issuer: amount.issuer };
+    }
+    return { amount: amount as string, currency: XRP };
+}
+
+// True when both prices are in the same asset (XRP, or the same currency from the same issuer)
+export function sameAsset(a: StoredPrice, b: StoredPrice): boolean {
+    return (a.currency ?? XRP) === (b.currency ?? XRP) && (a.issuer ?? null) === (b.issuer ?? null);
+}
+
+// True when a ledger offer's Amount is exactly the stored price
+export function amountMatches(ledgerAmount: Amount, price: StoredPrice): boolean {
+    const stored = toLedgerAmount(price);
+    if (typeof ledgerAmount === "string" || typeof stored === "string") return ledgerAmount === stored;
+    return isIssuedAmount(ledgerAmount) && isIssuedAmount(stored) &&
+        ledgerAmount.currency === stored.currency &&
+        ledgerAmount.issuer === stored.issuer &&
+        Number(ledgerAmount.value) === Number(stored.value);
+}
+
+/**
+ * Compare two prices in the same asset: -1, 0 or 1. XRP drops compare
+ * exactly; IOU values compare as decimals.
+ */
+export function comparePrices(a: StoredPrice, b: StoredPrice): number {
+    if ((a.currency ?? XRP) === XRP) {
+        const diff = BigInt(a.amount) - BigInt(b.amount);
+        return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+    }
+    const diff = Number(a.amount) - Number(b.amount);
+    return diff === 0 ? 0 : diff > 0 ? 1 : -1;
+}
+
+/**
+ * `a - b` for two prices in the same asset, as a stored amount string.
+ */
+export function subtractPrices(a: StoredPrice, b: StoredPrice): string {
+    if ((a.currency ?? XRP) === XRP) {
+        return (BigInt(a.amount) - BigInt(b.amount)).toString();
+    }
+    return String(Number((Number(a.amount) - Number(b.amount)).toPrecision(IOU_PRECISION)));
+}
+
+/**
+ * `price * numerator / denominator` in the price's asset, as a stored amount
+ * string. XRP drops are rounded down; IOU values keep 15 significant digits.
+ */
+export function applyRate(price: StoredPrice, numerator: number, denominator: number): string {
+    if ((price.currency ?? XRP) === XRP) {
+        return (BigInt(price.amount) * BigInt(numerator) / BigInt(denominator)).toString();
+    }
+    return String(Number((Number(price.amount) * numerator / denominator).toPrecision(IOU_PRECISION)));
+}
+
+/**
+ * Validate an IOU currency code and issuer from a request. Returns an error
+ * message, or null when both are usable. `prefix` is prepended to the field names in the message.
+ */
+export function validateIssuedCurrency(currency: unknown, issuer: unknown, prefix = "amount."): string | null {
+    // 3-character ISO-style codes or 40-char hex; "XRP" is reserved for drops
+    if (typeof currency !== "string" || !/^([A-Za-z0-9?!@#$%^&*<>(){}[\]|]{3}|[0-9A-Fa-f]{40})$/.test(currency) || currency.toUpperCase() === XRP) {
+        return `${prefix}currency must be a 3-character code other than XRP or a 40-character hex code`;
+    }
+    if (typeof issuer !== "string" || !isValidClassicAddress(issuer)) {
+        return `${prefix}issuer must be a classic XRPL address`;
+    }
+    return null;
+}
+
+/**
+ * Validate a positive IOU value (decimal string, at most 15 significant
+ * digits). Returns an error message, or null when it is usable.
+ */
+export function validateIssuedValue(value: unknown, field = "amount.value"): string | null {
+    if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value) || !(Number(value) > 0)) {
+        return `${field} must be a positive decimal string`;
+    }
+    if (value.replace(".", "").replace(/^0+/, "").length > IOU_PRECISION) {
+        return `${field} can have at most ${IOU_PRECISION} significant digits`;
+    }
+    return null;
+}
+
+/**
+ * Validate an IOU price from a request. Returns an error message, or null
+ * when the currency code, issuer and value are usable in an offer.
+ */
+export function validateIssuedAmount(amount: { currency?: unknown; issuer?: unknown; value?: unknown }): string | null {
+    return validateIssuedCurrency(amount.currency, amount.issuer) ?? validateIssuedValue(amount.value);
+}
+
+// True for a price above zero in either representation
+export function isPositiveAmount(amount: Amount): boolean {
+    const value = isIssuedAmount(amount) ? amount.value : amount as string;
+    return Number(value) > 0;
+}
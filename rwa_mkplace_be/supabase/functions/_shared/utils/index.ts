@@ -10,4 +10,18 @@ export function createSupabaseClient() {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
     return createClient(supabaseUrl, supabaseServiceKey);
-}
\ No newline at end of file
+}
+
+/**
+ * Compare two secrets in time that depends only on their length, not on
+ * where they first differ, so a caller cannot recover a secret by timing
+ * repeated guesses. Used for webhook signatures and the cron secret.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
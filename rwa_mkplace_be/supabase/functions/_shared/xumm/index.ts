@@ -5,10 +5,33 @@
  *
  * */
 import { XummSdk, SdkTypes } from "npm:xumm-sdk@1.11.2";
-import { XummPayloadStatus, XummPayloadEnrich, TX_TYPE } from "./type.ts";
+import { XummPayloadStatus, XummPayloadEnrich, XummWebhookCheck, TX_TYPE } from "./type.ts";
+import config, { type XummFlow, type XummReturnUrl } from "../config/index.ts";
+
+// TrustSet flag that blocks rippling through the new trust line
+const TF_SET_NO_RIPPLE = 0x00020000;
 
 export class XummService {
-    public constructor(private apiKey: string, private apiSecret: string) {
+    /**
+     * @param returnUrls Per-flow return URLs sent with every payload, defaults to config.
+     * @param webhookUrl Expected webhook URL of the XUMM app, defaults to config.
+     */
+    public constructor(
+        private apiKey: string,
+        private apiSecret: string,
+        private returnUrls: Record<XummFlow, XummReturnUrl> = config.RETURN_URLS,
+        private webhookUrl: string | undefined = config.WEBHOOK_URL,
+    ) {
+    }
+
+    // Options shared by every payload; return_url is only sent when configured
+    private payloadOptions(flow: XummFlow, expire = 600, submit = true): SdkTypes.CreatePayload["options"] {
+        const returnUrl = this.returnUrls[flow];
+        return {
+            submit,
+            expire,
+            ...(returnUrl?.web || returnUrl?.app ? { return_url: returnUrl } : {}),
+        };
     }
 
     // Create a new XummSdk instance for each operation.
@@ -16,20 +39,42 @@ export class XummService {
         return new XummSdk(this.apiKey, this.apiSecret);
     }
 
+    /**
+     * Create a payload, pushed to the user's XUMM app when `userToken` is still
+     * active. Expired or revoked tokens are dropped so the payload is created
+     * for QR / deep link signing instead (`pushed` is then false).
+     */
+    private async createPayload(
+        body: SdkTypes.CreatePayload,
+        userToken?: string,
+    ): Promise<SdkTypes.XummPostPayloadResponse | null> {
+        const xumm = this.sdk();
+
+        if (userToken) {
+            try {
+                const validity = await xumm.verifyUserToken(userToken);
+                if (validity?.active) {
+                    return await xumm.payload.create({ ...body, user_token: userToken });
+                }
+                console.warn("XUMM user token is expired or revoked, falling back to QR");
+            } catch (err) {
+                console.warn("Error pushing with XUMM user token, falling back to QR:", err);
+            }
+        }
+
+        return await xumm.payload.create(body);
+    }
+
     /**
      * Create a sign-in payload for XUMM authentication.
      * Returns payload details including QR code for user to scan.
      */
-    async createSignInPayload(): Promise<SdkTypes.XummPostPayloadResponse | null> {
-        const xumm = this.sdk();
+    async createSignInPayload(userToken?: string): Promise<SdkTypes.XummPostPayloadResponse | null> {
         const signInPayload: SdkTypes.CreatePayload = {
             txjson: {
                 TransactionType: "SignIn"
             },
-            options: {
-                submit: false,
-                expire: 600 // 10 minutes
-            },
+            options: this.payloadOptions("signIn", 600, false), // 10 minutes
             custom_meta: {
                 blob: {
                     "type": TX_TYPE.SIGN_IN,
@@ -37,25 +82,27 @@ export class XummService {
             }
         };
         // if (walletAddress) signInPayload.txjson.Account = walletAddress;
-        const payload = await xumm.payload.create(signInPayload);
+        const payload = await this.createPayload(signInPayload, userToken);
         return payload;
     }
 
+    /**
+     * Create a payload for a user to accept a sell offer. Used both to buy a
+     * listing and to claim a freshly minted token, hence the `flow`.
+     */
     async createAcceptOfferPayload(
         walletAddress: string,
         nftSellOfferIndex: string,
+        flow: XummFlow = "buyNow",
+        userToken?: string,
     ) {
-        const xumm = this.sdk();
         const payload: SdkTypes.CreatePayload = {
             txjson: {
                 TransactionType: "NFTokenAcceptOffer",
                 Account: walletAddress,
                 NFTokenSellOffer: nftSellOfferIndex,
             },
-            options: {
-                submit: true,
-                expire: 600 // 10 minutes
-            },
+            options: this.payloadOptions(flow), // 10 minutes
             custom_meta: {
                 blob: {
                     "type": TX_TYPE.ACCEPT_OFFER,
@@ -63,22 +110,157 @@ export class XummService {
                 }
             }
         };
-        return await xumm.payload.create(payload);
+        return await this.createPayload(payload, userToken);
+    }
+
+    /**
+     * Create a payload for an NFT owner to accept a buy offer (bid) on their token.
+     * The owner signs an NFTokenAcceptOffer referencing the NFTokenBuyOffer index.
+     */
+    async createAcceptBuyOfferPayload(
+        walletAddress: string,
+        nftBuyOfferIndex: string,
+        userToken?: string,
+    ): Promise<SdkTypes.XummPostPayloadResponse | null> {
+        const payload: SdkTypes.CreatePayload = {
+            txjson: {
+                TransactionType: "NFTokenAcceptOffer",
+                Account: walletAddress,
+                NFTokenBuyOffer: nftBuyOfferIndex,
+            },
+            options: this.payloadOptions("acceptBid"), // 10 minutes
+            custom_meta: {
+                blob: {
+                    "type": TX_TYPE.ACCEPT_BUY_OFFER,
+                    "nftBuyOfferIndex": nftBuyOfferIndex,
+                }
+            }
+        };
+        return await this.createPayload(payload, userToken);
+    }
+
+    /**
+     * Create a payload for an offer owner to withdraw one or more NFT offers.
+     * A single NFTokenCancelOffer can remove several offers at once.
+     */
+    async createCancelOfferPayload(
+        walletAddress: string,
+        nftOfferIndexes: string[],
+        userToken?: string,
+    ): Promise<SdkTypes.XummPostPayloadResponse | null> {
+        const payload: SdkTypes.CreatePayload = {
+            txjson: {
+                TransactionType: "NFTokenCancelOffer",
+                Account: walletAddress,
+                NFTokenOffers: nftOfferIndexes,
+            },
+            options: this.payloadOptions("cancelOffer"), // 10 minutes
+            custom_meta: {
+                blob: {
+                    "type": TX_TYPE.CANCEL_OFFER,
+                    "nftOfferIndexes": nftOfferIndexes,
+                }
+            }
+        };
+        return await this.createPayload(payload, userToken);
+    }
+
+    /**
+     * Create a payload for a wallet to trust an issued currency (IOU).
+     * The TrustSet sets tfSetNoRipple so the holder's balance cannot be
+     * rippled through to other trust lines.
+     */
+    async createTrustSetPayload(
+        walletAddress: string,
+        params: {
+            currency: string,
+            issuer: string,
+            // most of the currency the wallet is willing to hold
+            limit: string,
+        },
+        userToken?: string,
+    ): Promise<SdkTypes.XummPostPayloadResponse | null> {
+        const payload: SdkTypes.CreatePayload = {
+            txjson: {
+                TransactionType: "TrustSet",
+                Account: walletAddress,
+                LimitAmount: {
+                    currency: params.currency,
+                    issuer: params.issuer,
+                    value: params.limit,
+                },
+                Flags: TF_SET_NO_RIPPLE,
+            },
+            options: this.payloadOptions("trustSet"), // 10 minutes
+            custom_meta: {
+                blob: {
+                    "type": TX_TYPE.TRUST_SET,
+                    "currency": params.currency,
+                    "issuer": params.issuer,
+                    "limit": params.limit,
+                }
+            }
+        };
+        return await this.createPayload(payload, userToken);
+    }
+
+    /**
+     * Create a payload for a buyer to lock XRP in an escrow for the seller.
+     * Times are in seconds since the Ripple epoch; XRPL requires a condition,
+     * a finishAfter, or both.
+     */
+    async createEscrowCreatePayload(
+        walletAddress: string,
+        params: {
+            destination: string,
+            amount: string, // drops
+            condition?: string,
+            finishAfter?: number,
+            cancelAfter: number,
+            nftTokenId: string,
+        },
+        userToken?: string,
+    ): Promise<SdkTypes.XummPostPayloadResponse | null> {
+        const payload: SdkTypes.CreatePayload = {
+            txjson: {
+                TransactionType: "EscrowCreate",
+                Account: walletAddress,
+                Destination: params.destination,
+                Amount: params.amount,
+                CancelAfter: params.cancelAfter,
+                ...(params.condition ? { Condition: params.condition } : {}),
+                ...(params.finishAfter !== undefined ? { FinishAfter: params.finishAfter } : {}),
+            },
+            options: this.payloadOptions("escrowCreate"), // 10 minutes
+            custom_meta: {
+                blob: {
+                    "type": TX_TYPE.ESCROW_CREATE,
+                    "nft_token_id": params.nftTokenId,
+                    "destination": params.destination,
+                    "amount": params.amount,
+                }
+            }
+        };
+        return await this.createPayload(payload, userToken);
     }
 
     async createNftOfferPayload(
         walletAddress: string,
         params: {
             nftTokenId: string,
-            amount?: string,
+            // drops as a string, or an IOU amount
+            amount?: string | { currency: string, issuer: string, value: string },
             type?: 'sell' | 'buy',
             // nft owner
             owner?: string,
             destination?: string,
+            // on-ledger expiry of the offer, in seconds since the Ripple epoch
+            expiration?: number,
         },
         expireSeconds = 600,
+        userToken?: string,
+        flow: XummFlow = "createOffer",
     ): Promise<SdkTypes.XummPostPayloadResponse | null> {
-        const xumm = this.sdk();
 
         // Build NFTokenCreateOffer txjson following rules:
         // - Caller provides account (walletAddress), nftTokenId, amount
@@ -101,12 +283,13 @@ export class XummService {
             txjson.Flags = 1;
         }
 
+        if (params.expiration !== undefined) {
+            txjson.Expiration = params.expiration;
+        }
+
         const payloadBody: SdkTypes.CreatePayload = {
             txjson,
-            options: {
-                submit: true,
-                expire: expireSeconds,
-            },
+            options: this.payloadOptions(flow, expireSeconds),
             custom_meta: {
                 blob: {
                     type: params.type === 'buy' ? TX_TYPE.CREATE_BUY_OFFER : TX_TYPE.CREATE_SELL_OFFER,
@@ -116,7 +299,7 @@ export class XummService {
             }
         };
 
-        const created = await xumm.payload.create(payloadBody);
+        const created = await this.createPayload(payloadBody, userToken);
 
 
         return created;
@@ -137,11 +320,27 @@ export class XummService {
             expired: Boolean(payload.meta?.expired),
             cancelled: Boolean(payload.meta?.cancelled),
             user_token: payload.application?.issued_user_token || undefined,
-            wallet_address: payload.response?.account || undefined
+            wallet_address: payload.response?.account || undefined,
+            txid: payload.response?.txid || undefined
         };
     }
 
 
+    /**
+     * Compare the webhook URL set for the app in the XUMM developer console
+     * with WEBHOOK_URL. Payloads cannot carry their own webhook URL, so on a
+     * mismatch status updates only arrive through polling.
+     */
+    async checkWebhookUrl(): Promise<XummWebhookCheck> {
+        const details = await this.sdk().ping();
+        const configured = details.application.webhookurl || undefined;
+        return {
+            expected: this.webhookUrl,
+            configured,
+            matches: !this.webhookUrl || configured === this.webhookUrl,
+        };
+    }
+
     // Enrich payload with deep link (and potentially QR code in future).
     public enrichPayload(payload: SdkTypes.XummPostPayloadResponse): SdkTypes.XummPostPayloadResponse & XummPayloadEnrich {
         const uuid = payload.uuid;
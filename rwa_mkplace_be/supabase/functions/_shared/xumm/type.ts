@@ -22,8 +22,12 @@ export type XummPayloadBody = {
 export enum TX_TYPE {
     SIGN_IN = "SignIn",
     ACCEPT_OFFER = "AcceptOffer",
+    ACCEPT_BUY_OFFER = "AcceptBuyOffer",
+    CANCEL_OFFER = "CancelOffer",
     CREATE_BUY_OFFER = "CreateBuyOffer",
     CREATE_SELL_OFFER = "CreateSellOffer",
+    TRUST_SET = "TrustSet",
+    ESCROW_CREATE = "EscrowCreate",
 }
 
 const XummTxTypes = [
@@ -92,6 +96,15 @@ export interface XummSignInPayload {
 /**
  * Payload status response structure
  */
+// Result of XummService.checkWebhookUrl
+export interface XummWebhookCheck {
+    // WEBHOOK_URL from config
+    expected?: string;
+    // webhook URL of the app in the XUMM developer console
+    configured?: string;
+    matches: boolean;
+}
+
 export interface XummPayloadStatus {
     signed: boolean;
     resolved: boolean;
@@ -99,6 +112,8 @@ export interface XummPayloadStatus {
     cancelled?: boolean;
     user_token?: string;
     wallet_address?: string;
+    // hash of the submitted transaction, present once the signed payload was submitted
+    txid?: string;
     // the raw hex of the transaction, anyone can verify it on the with (verify-xrpl-signature)[https://www.npmjs.com/package/verify-xrpl-signature]
     hex?: string;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * XUMM webhook signature helpers.
+ *
+ * XUMM signs every webhook call with HMAC-SHA1 over `timestamp + body`, keyed
+ * with the application's API secret (dashes removed), and sends the hex digest
+ * in `X-Xumm-Request-Signature` next to the unix timestamp in
+ * `X-Xumm-Request-Timestamp`.
+ */
+
+import { timingSafeEqual } from "../utils/index.ts";
+
+export const SIGNATURE_HEADER = "x-xumm-request-signature";
+export const TIMESTAMP_HEADER = "x-xumm-request-timestamp";
+
+export type WebhookVerification =
+    | { valid: true }
+    | { valid: false; reason: string };
+
+async function hmacSha1Hex(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret.replaceAll("-", "")),
+        { name: "HMAC", hash: "SHA-1" },
+        false,
+        ["sign"],
+    );
+    const digest = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compute the signature XUMM would send for `rawBody` at `timestamp`.
+ * Used to sign local fixtures; production calls are signed by XUMM.
+ */
+export function signWebhookPayload(rawBody: string, timestamp: string, secret: string): Promise<string> {
+    return hmacSha1Hex(secret, timestamp + rawBody);
+}
+
+/**
+ * Check a webhook call's signature and freshness.
+ *
+ * @param rawBody Request body exactly as received (before JSON parsing).
+ * @param headers Request headers carrying the signature and timestamp.
+ * @param secret XUMM API secret of the application.
+ * @param toleranceSeconds Maximum age (or clock skew) of the timestamp.
+ */
+export async function verifyWebhookSignature(
+    rawBody: string,
+    headers: Headers,
+    secret: string,
+    toleranceSeconds: number,
+): Promise<WebhookVerification> {
+    const signature = headers.get(SIGNATURE_HEADER);
+    const timestamp = headers.get(TIMESTAMP_HEADER);
+    if (!signature || !timestamp) {
+        return { valid: false, reason: "Missing signature headers" };
+    }
+
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+        return { valid: false, reason: "Stale or invalid timestamp" };
+    }
+
+    const expected = await signWebhookPayload(rawBody, timestamp, secret);
+    if (!timingSafeEqual(expected, signature.toLowerCase())) {
+        return { valid: false, reason: "Invalid signature" };
+    }
+
+    return { valid: true };
+}
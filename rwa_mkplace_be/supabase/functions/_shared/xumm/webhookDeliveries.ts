@@ -0,0 +1,51 @@
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+/**
+ * Repository for the webhook_deliveries table.
+ * Each XUMM webhook call is claimed once by its call UUID so retries and
+ * replays of an already processed call are ignored.
+ */
+export class WebhookDeliveryRepository {
+    private supabase: SupabaseClient;
+
+    constructor() {
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+        this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+    }
+
+    /**
+     * Record a delivery. Returns false when the call UUID was already claimed.
+     */
+    async claim(callUuid: string, payloadId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from("webhook_deliveries")
+            .insert([{ call_uuid: callUuid, payload_id: payloadId }]);
+
+        if (error) {
+            if (error.code === "23505") {
+                return false; // Unique violation: already delivered
+            }
+            console.error("Error recording webhook delivery:", error);
+            throw new Error(`Failed to record webhook delivery: ${error.message}`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Drop a claim so XUMM's retry of a call that failed processing is handled again.
+     */
+    async release(callUuid: string): Promise<void> {
+        const { error } = await this.supabase
+            .from("webhook_deliveries")
+            .delete()
+            .eq("call_uuid", callUuid);
+
+        if (error) {
+            console.error("Error releasing webhook delivery:", error);
+            throw new Error(`Failed to release webhook delivery: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,202 @@
+// Accept-bid: lets the current owner of an NFT accept an incoming buy offer through XUMM.
+// Ownership is checked with Clio `nft_info`. Bids made through create-offer name the
+// broker wallet as Destination, so the owner signs a matching sell offer to the broker
+// and settlement brokers the pair. A bid open to the owner is accepted directly; that
+// acceptance is stored as an 'accept' row linked to the bid so verification completes
+// the bid and retargets competing bids.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import { askForBid } from "../_shared/sales/index.ts";
+import { toLedgerAmount } from "../_shared/utils/amount.ts";
+import config from "../_shared/config/index.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import type { AcceptBidRequest, AcceptBidResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// XUMM payload lifetime for the brokered sell offer, as in create-offer
+const PAYLOAD_EXPIRE_SECONDS = 600;
+
+console.log("accept-bid: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: AcceptBidResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const body = (await req.json()) as AcceptBidRequest;
+  const { offer_id } = body;
+  const { sub: owner_address, push_token } = ctx.user;
+
+  if (!offer_id) {
+    return jsonResponse({ success: false, error: "Missing required field: offer_id" }, 400);
+  }
+
+  const sp = createServiceProvider();
+  const offerService = new NFTOfferService();
+
+  try {
+    const bid = await offerService.getOfferById(offer_id);
+    if (!bid || bid.offer_type !== "buy") {
+      return jsonResponse({ success: false, error: "Buy offer not found" }, 404);
+    }
+
+    if (bid.settlement_tx_hash || !bid.offer_index) {
+      return jsonResponse({ success: false, error: "Buy offer is not available to accept" }, 409);
+    }
+
+    // Only the current on-ledger owner may accept bids for the token
+    const clioClient = await sp.getClioClient();
+    const nftInfo = await clioClient.request({
+      command: "nft_info",
+      nft_id: bid.nft_token_id
+    });
+    if (nftInfo.result.owner !== owner_address) {
+      return jsonResponse({ success: false, error: "Only the token owner can accept bids" }, 403);
+    }
+
+    if (bid.user_address === owner_address) {
+      return jsonResponse({ success: false, error: "Cannot accept your own bid" }, 400);
+    }
+
+    const nftService = await sp.getNftService();
+    const ledgerOffers = await nftService.fetchBuyOffers(bid.nft_token_id);
+    const ledgerOffer = ledgerOffers.find((o) => o.nft_offer_index === bid.offer_index);
+    if (!ledgerOffer) {
+      return jsonResponse({ success: false, error: "Buy offer is no longer available on-ledger" }, 409);
+    }
+
+    const brokerAddress = sp.getBackendWallet().address;
+    const brokered = ledgerOffer.destination === brokerAddress;
+    if (ledgerOffer.destination && !brokered && ledgerOffer.destination !== owner_address) {
+      return jsonResponse({ success: false, error: "Buy offer is reserved for another account" }, 409);
+    }
+
+    // A brokered sale asks what is left of the bid after the commission
+    const amount = brokered ? askForBid(bid, config.MARKETPLACE_COMMISSION_BPS) : bid.amount;
+
+    // An IOU bid pays the owner over a trust line
+    if (bid.issuer && bid.currency) {
+      const trustLineService = await sp.getTrustLineService();
+      const trustLineError = await trustLineService.checkCanReceive(owner_address, bid.currency, bid.issuer);
+      if (trustLineError) {
+        return jsonResponse({ success: false, error: trustLineError }, 400);
+      }
+    }
+
+    const xummService = sp.getXummService();
+    const payload = brokered
+      ? await xummService.createNftOfferPayload(
+        owner_address,
+        {
+          nftTokenId: bid.nft_token_id,
+          amount: toLedgerAmount({ ...bid, amount }),
+          type: "sell",
+          destination: brokerAddress,
+        },
+        PAYLOAD_EXPIRE_SECONDS,
+        push_token,
+        "acceptBid",
+      )
+      : await xummService.createAcceptBuyOfferPayload(owner_address, bid.offer_index, push_token);
+    if (!payload) throw new Error("Failed to create XUMM payload");
+    const enriched = xummService.enrichPayload(payload);
+
+    // A brokered acceptance is a regular sell row that settlement pairs with
+    // the bid once it is on-ledger; a direct accept completes the bid itself
+    const acceptance = await offerService.createOffer({
+      nft_token_id: bid.nft_token_id,
+      offer_type: brokered ? "sell" : "accept",
+      user_address: owner_address,
+      amount,
+      currency: bid.currency,
+      issuer: bid.issuer,
+      ...(brokered ? {} : { owner_address, matched_offer_id: bid.id }),
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png,
+      pushed: payload.pushed,
+    });
+
+    return jsonResponse({
+      success: true,
+      acceptance_id: acceptance.id,
+      settlement: brokered ? "brokered" : "direct",
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png || `https://xumm.app/sign/${enriched.uuid}/qr`,
+      pushed: payload.pushed,
+      nft_token_id: bid.nft_token_id,
+      offer_index: bid.offer_index,
+      amount,
+      currency: bid.currency,
+      issuer: bid.issuer,
+      bidder_address: bid.user_address,
+      message: payload.pushed
+        ? "Accept request sent to your XUMM wallet. Please sign to sell the NFT."
+        : "Scan the QR code with XUMM to sign and accept the bid.",
+    });
+  } catch (err) {
+    console.error("accept-bid error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Find a bid for your token, e.g. via the nft_offers table (offer_type = 'buy')
+  3. Make an HTTP request:
+
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/accept-bid' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"offer_id": "6fa459ea-ee8a-3ca4-894e-db77e160355e"
+}'
+
+Notes:
+- offer_id: id of a buy row in nft_offers whose offer_index is known (offer validated on-ledger)
+- The JWT subject must be the current token owner according to Clio nft_info (403 otherwise)
+- The bid is re-checked with nft_buy_offers; 409 when it is gone or reserved for another Destination
+- settlement "brokered" (bid Destination is the broker wallet, i.e. every create-offer bid): the owner
+  signs an NFTokenCreateOffer sell offer to the broker, stored as an offer_type 'sell' row. amount is
+  the bid minus MARKETPLACE_COMMISSION_BPS, so the bid exactly covers it. Once the sell offer is
+  validated, settlement brokers it against the bid (see settle-offers)
+- settlement "direct" (no Destination, or the owner's address): the owner accepts the bid, stored as
+  an offer_type 'accept' row with matched_offer_id = bid id
+- Either way, once the sale is validated the bid is marked completed, other open bids for the token
+  are pointed at the new owner and the new owner's own bids are failed
+
+*/
@@ -0,0 +1,30 @@
+export type AcceptBidRequest = {
+    // id of the buy offer row in nft_offers to accept
+    offer_id: string;
+};
+
+export type AcceptBidResponse = {
+    success: boolean;
+    // id of the nft_offers row tracking this acceptance
+    acceptance_id?: string;
+    // 'brokered': a sell offer to the broker wallet, settled against the bid;
+    // 'direct': an accept of the bid itself
+    settlement?: 'direct' | 'brokered';
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    nft_token_id?: string;
+    offer_index?: string;
+    amount?: string; // what the owner receives: drops, or the IOU value when currency is not XRP
+    currency?: string;
+    issuer?: string;
+    bidder_address?: string;
+    // human readable message or error
+    message?: string;
+    error?: string;
+};
+
+// Helper type for the handler function contract
+export type AcceptBidHandler = (input: AcceptBidRequest) => Promise<AcceptBidResponse>;
@@ -0,0 +1,153 @@
+// Asset verification: a verifier wallet reviews the asset behind a catalogue
+// token and records an attestation signed over the token's metadata hash.
+// The latest attestation sets the token's verification_status.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { AttestationService, validateAttestationSignature } from "../_shared/attestation/index.ts";
+import { NFTCatalogRepository } from "../_shared/nftCatalog/index.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import { isVerifier } from "../_shared/auth/service.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import type { AttestNftRequest, AttestNftResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_NOTES_LENGTH = 2000;
+
+console.log("attest-nft: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: AttestNftResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const verifierAddress = ctx.user.sub;
+  if (!isVerifier(ctx.user)) {
+    return jsonResponse({ success: false, error: "Only verifier wallets can attest assets" }, 403);
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Partial<AttestNftRequest>;
+  const { nft_token_id, decision, notes, public_key, signature } = body;
+
+  if (typeof nft_token_id !== "string" || !/^[0-9A-Fa-f]{64}$/.test(nft_token_id)) {
+    return jsonResponse({ success: false, error: "nft_token_id must be a 64-character hex NFTokenID" }, 400);
+  }
+  if (decision !== "approved" && decision !== "rejected") {
+    return jsonResponse({ success: false, error: "decision must be 'approved' or 'rejected'" }, 400);
+  }
+  if (notes !== undefined && (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH)) {
+    return jsonResponse({ success: false, error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` }, 400);
+  }
+  if (typeof public_key !== "string" || typeof signature !== "string") {
+    return jsonResponse({ success: false, error: "public_key and signature are required" }, 400);
+  }
+
+  try {
+    const nft = await new NFTCatalogRepository().findByTokenId(nft_token_id.toUpperCase());
+    if (!nft) {
+      return jsonResponse({ success: false, error: "Token not found in the catalogue" }, 404);
+    }
+    if (nft.burned_at) {
+      return jsonResponse({ success: false, error: "Token was burned" }, 409);
+    }
+    if (!nft.metadata_hash) {
+      return jsonResponse({ success: false, error: "Token has no stored metadata to attest" }, 422);
+    }
+    // Verifiers cannot vouch for their own assets
+    if (nft.creator_address === verifierAddress || nft.owner_address === verifierAddress) {
+      return jsonResponse({ success: false, error: "Verifiers cannot attest tokens they created or hold" }, 403);
+    }
+
+    const signatureError = validateAttestationSignature(nft.metadata_hash, verifierAddress, public_key, signature);
+    if (signatureError) {
+      return jsonResponse({ success: false, error: signatureError }, 400);
+    }
+
+    const result = await new AttestationService().attest(nft, {
+      nft_token_id: nft.nft_token_id,
+      verifier_address: verifierAddress,
+      decision,
+      notes: notes?.trim() || undefined,
+      public_key: public_key.toUpperCase(),
+      signature: signature.toUpperCase(),
+    });
+
+    return jsonResponse({
+      success: true,
+      attestation: result.attestation,
+      verification_status: result.verification_status,
+    });
+  } catch (err) {
+    console.error("attest-nft error:", err);
+    return jsonResponse({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+1. Sign the token's metadata_hash (from list-nfts) with the verifier wallet, e.g. in Node:
+   const { deriveKeypair, sign } = require('ripple-keypairs');
+   const { publicKey, privateKey } = deriveKeypair(verifierSeed);
+   const signature = sign(metadataHash, privateKey);
+
+2. Record the attestation with the verifier's session JWT:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/attest-nft' \
+     -H 'Authorization: Bearer <verifier session JWT>' \
+     -H 'Content-Type: application/json' \
+     -d '{
+       "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+       "decision": "approved",
+       "notes": "Bar serial AU-22841 inspected at the Zurich vault; assay certificate matches",
+       "public_key": "03A1B2C3D4E5F60718293A4B5C6D7E8F90A1B2C3D4E5F60718293A4B5C6D7E8F90",
+       "signature": "3045022100..."
+     }'
+
+Response format:
+{
+  "success": true,
+  "attestation": {
+    "id": "550e8400-e29b-41d4-a716-446655440000",
+    "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+    "metadata_hash": "3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776",
+    "verifier_address": "rVerifier...",
+    "decision": "approved",
+    "notes": "Bar serial AU-22841 inspected at the Zurich vault; assay certificate matches",
+    "public_key": "03A1B2C3D4E5F60718293A4B5C6D7E8F90A1B2C3D4E5F60718293A4B5C6D7E8F90",
+    "signature": "3045022100...",
+    "attested_at": "2024-01-02T09:30:00.000Z"
+  },
+  "verification_status": "verified"
+}
+
+Notes:
+- Verifier wallets are listed in VERIFIER_ADDRESSES; xumm-signin puts role "verifier" in their
+  session JWT. The address is re-checked here, so removing it takes effect immediately
+- The signature covers the metadata hash, which is the token URI: an attestation vouches for
+  exactly the metadata and anchored documents the token committed to at mint
+- public_key must derive the signed-in address; the signature is checked with ripple-keypairs verify
+- decision approved -> verification_status verified, rejected -> rejected. Every attestation is
+  kept in nft_attestations (publicly readable); the latest one sets the status
+- Verifiers cannot attest tokens they created or currently hold (403)
+- Status codes: 400 invalid input or signature, 403 not a verifier, 404 unknown token,
+  409 burned token, 422 token without stored metadata
+
+*/
@@ -0,0 +1,19 @@
+import type { AttestationDecision, AttestationRecord, VerificationStatus } from "../_shared/attestation/index.ts";
+
+export interface AttestNftRequest {
+  nft_token_id: string;
+  decision: AttestationDecision;
+  // Review notes kept with the attestation (max 2000 characters)
+  notes?: string;
+  // Verifier's public key and its signature of the token's metadata_hash, both hex
+  public_key: string;
+  signature: string;
+}
+
+export interface AttestNftResponse {
+  success: boolean;
+  attestation?: AttestationRecord;
+  // Token status after this attestation
+  verification_status?: VerificationStatus;
+  error?: string;
+}
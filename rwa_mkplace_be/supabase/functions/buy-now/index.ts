@@ -0,0 +1,196 @@
+// Buy-now: lets the authenticated buyer purchase a listed sell offer through XUMM.
+// Listings made through create-offer name the broker wallet as Destination, so the
+// buyer signs a matching buy offer to the broker and settlement brokers the pair.
+// A listing open to the buyer (no Destination, or the buyer's own address) is
+// accepted directly; that attempt is stored as an 'accept' row linked to the listing,
+// so webhook/polling verification completes both rows together.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import { bidCoveringAsk } from "../_shared/sales/index.ts";
+import { toLedgerAmount } from "../_shared/utils/amount.ts";
+import config from "../_shared/config/index.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import type { BuyNowRequest, BuyNowResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// XUMM payload lifetime for the brokered buy offer, as in create-offer
+const PAYLOAD_EXPIRE_SECONDS = 600;
+
+console.log("buy-now: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: BuyNowResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const body = (await req.json()) as BuyNowRequest;
+  const { offer_id } = body;
+  const { sub: buyer_address, push_token } = ctx.user;
+
+  if (!offer_id) {
+    return jsonResponse({ success: false, error: "Missing required field: offer_id" }, 400);
+  }
+
+  const sp = createServiceProvider();
+  const offerService = new NFTOfferService();
+
+  try {
+    const listing = await offerService.getOfferById(offer_id);
+    if (!listing || listing.offer_type !== "sell") {
+      return jsonResponse({ success: false, error: "Sell offer not found" }, 404);
+    }
+
+    if (listing.user_address === buyer_address) {
+      return jsonResponse({ success: false, error: "Cannot buy your own listing" }, 400);
+    }
+
+    if (listing.settlement_tx_hash || !listing.offer_index) {
+      return jsonResponse({ success: false, error: "Listing is not available for purchase" }, 409);
+    }
+
+    // The database can lag behind the ledger; make sure the offer still exists
+    // and see who is allowed to accept it
+    const nftService = await sp.getNftService();
+    const ledgerOffers = await nftService.fetchSellOffers(listing.nft_token_id);
+    const ledgerOffer = ledgerOffers.find((o) => o.nft_offer_index === listing.offer_index);
+    if (!ledgerOffer) {
+      return jsonResponse({ success: false, error: "Sell offer is no longer available on-ledger" }, 409);
+    }
+
+    const brokerAddress = sp.getBackendWallet().address;
+    const brokered = ledgerOffer.destination === brokerAddress;
+    if (ledgerOffer.destination && !brokered && ledgerOffer.destination !== buyer_address) {
+      return jsonResponse({ success: false, error: "Sell offer is reserved for another account" }, 409);
+    }
+
+    // A brokered purchase bids enough that the seller still gets the ask after the commission
+    const amount = brokered ? bidCoveringAsk(listing, config.MARKETPLACE_COMMISSION_BPS) : listing.amount;
+
+    // An IOU listing is paid from the buyer's trust line
+    if (listing.issuer && listing.currency) {
+      const trustLineService = await sp.getTrustLineService();
+      const trustLineError = await trustLineService.checkCanPay(buyer_address, listing.currency, listing.issuer, amount);
+      if (trustLineError) {
+        return jsonResponse({ success: false, error: trustLineError }, 400);
+      }
+    }
+
+    const xummService = sp.getXummService();
+    const payload = brokered
+      ? await xummService.createNftOfferPayload(
+        buyer_address,
+        {
+          nftTokenId: listing.nft_token_id,
+          amount: toLedgerAmount({ ...listing, amount }),
+          type: "buy",
+          owner: listing.user_address,
+          destination: brokerAddress,
+        },
+        PAYLOAD_EXPIRE_SECONDS,
+        push_token,
+        "buyNow",
+      )
+      : await xummService.createAcceptOfferPayload(buyer_address, listing.offer_index, "buyNow", push_token);
+    if (!payload) throw new Error("Failed to create XUMM payload");
+    const enriched = xummService.enrichPayload(payload);
+
+    // Record the purchase attempt. A brokered bid is a regular buy row that
+    // settlement pairs with the listing once it is on-ledger; a direct accept
+    // is completed together with the listing once the tx is validated
+    const purchase = await offerService.createOffer({
+      nft_token_id: listing.nft_token_id,
+      offer_type: brokered ? "buy" : "accept",
+      user_address: buyer_address,
+      amount,
+      currency: listing.currency,
+      issuer: listing.issuer,
+      owner_address: listing.user_address,
+      ...(brokered ? {} : { matched_offer_id: listing.id }),
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png,
+      pushed: payload.pushed,
+    });
+
+    return jsonResponse({
+      success: true,
+      purchase_id: purchase.id,
+      settlement: brokered ? "brokered" : "direct",
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png || `https://xumm.app/sign/${enriched.uuid}/qr`,
+      pushed: payload.pushed,
+      nft_token_id: listing.nft_token_id,
+      offer_index: listing.offer_index,
+      amount,
+      currency: listing.currency,
+      issuer: listing.issuer,
+      message: payload.pushed
+        ? "Purchase request sent to your XUMM wallet. Please sign to buy the NFT."
+        : "Scan the QR code with XUMM to sign and buy the NFT.",
+    });
+  } catch (err) {
+    console.error("buy-now error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Get a listing id from GET /list-sell?status=completed
+  3. Make an HTTP request:
+
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/buy-now' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"offer_id": "550e8400-e29b-41d4-a716-446655440000"
+}'
+
+Notes:
+- offer_id: id of a sell row in nft_offers whose offer_index is known (offer validated on-ledger)
+- The buyer is taken from the JWT subject; buying your own listing is rejected
+- The sell offer is re-checked with nft_sell_offers; 409 when it is gone or reserved for another Destination
+- settlement "brokered" (listing Destination is the broker wallet, i.e. every create-offer listing):
+  the buyer signs an NFTokenCreateOffer buy offer to the broker, stored as an offer_type 'buy' row.
+  amount is the ask grossed up by MARKETPLACE_COMMISSION_BPS so the seller still receives the ask.
+  Once the buy offer is validated, settlement brokers it against the listing (see settle-offers)
+- settlement "direct" (no Destination, or the buyer's address): the buyer accepts the sell offer,
+  stored as an offer_type 'accept' row with matched_offer_id = listing id; once the accept tx is
+  validated with tesSUCCESS both the purchase row and the listing are marked completed
+- Poll GET /check-offer-status?payload_id=<payload_id>, then ?offer_id=<listing id> for settlement_tx_hash
+
+*/
@@ -0,0 +1,29 @@
+export type BuyNowRequest = {
+    // id of the sell offer row in nft_offers (as returned by list-sell)
+    offer_id: string;
+};
+
+export type BuyNowResponse = {
+    success: boolean;
+    // id of the nft_offers row tracking this purchase attempt
+    purchase_id?: string;
+    // 'brokered': a buy offer to the broker wallet, settled against the listing;
+    // 'direct': an accept of the listing itself
+    settlement?: 'direct' | 'brokered';
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    nft_token_id?: string;
+    offer_index?: string;
+    amount?: string; // what the buyer pays: drops, or the IOU value when currency is not XRP
+    currency?: string;
+    issuer?: string;
+    // human readable message or error
+    message?: string;
+    error?: string;
+};
+
+// Helper type for the handler function contract
+export type BuyNowHandler = (input: BuyNowRequest) => Promise<BuyNowResponse>;
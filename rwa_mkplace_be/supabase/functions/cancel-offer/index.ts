@@ -0,0 +1,198 @@
+// Cancel-offer: withdraws one or all of the caller's open offers for a token.
+// Broker-mode offers (Destination = backend wallet) are cancelled directly by the
+// backend wallet; any other offer gets an NFTokenCancelOffer XUMM payload for the
+// owner to sign. Rows move to 'cancelled' only once the ledger confirms removal.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import type { NFTOffer } from "npm:xrpl@4.4.0";
+import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import type { NFTOfferData } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import type { CancelOfferRequest, CancelOfferResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("cancel-offer: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: CancelOfferResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const body = (await req.json()) as CancelOfferRequest;
+  const { offer_id, nft_token_id } = body;
+  const { sub: user_address, push_token } = ctx.user;
+
+  if (!offer_id && !nft_token_id) {
+    return jsonResponse({ success: false, error: "Missing required field: offer_id or nft_token_id" }, 400);
+  }
+
+  const sp = createServiceProvider();
+  const offerService = new NFTOfferService();
+
+  try {
+    // Load the caller's offers; other users' rows are reported as not found
+    let targets: NFTOfferData[];
+    if (offer_id) {
+      const offer = await offerService.getOfferById(offer_id);
+      if (!offer || offer.user_address !== user_address) {
+        return jsonResponse({ success: false, error: "Offer not found" }, 404);
+      }
+      targets = [offer];
+    } else {
+      const { offers } = await offerService.listOffers({ user_address, nft_token_id, limit: 100 });
+      targets = offers;
+    }
+
+    const open = targets.filter((o) =>
+      (o.offer_type === "sell" || o.offer_type === "buy") &&
+      ["pending", "signed", "completed"].includes(o.status) &&
+      !o.settlement_tx_hash &&
+      o.offer_index
+    );
+    if (open.length === 0) {
+      return jsonResponse({ success: false, error: "No open on-ledger offers to cancel" }, 409);
+    }
+
+    const tokenId = open[0].nft_token_id;
+    const nftService = await sp.getNftService();
+    const backendWallet = sp.getBackendWallet();
+
+    const ledgerOffers = new Map<string, NFTOffer>();
+    for (const o of [...await nftService.fetchSellOffers(tokenId), ...await nftService.fetchBuyOffers(tokenId)]) {
+      ledgerOffers.set(o.nft_offer_index, o);
+    }
+
+    const live = open.filter((o) => ledgerOffers.has(o.offer_index!));
+    const skipped = open.filter((o) => !ledgerOffers.has(o.offer_index!));
+    if (live.length === 0) {
+      return jsonResponse({
+        success: false,
+        skipped_offer_ids: skipped.map((o) => o.id!),
+        error: "Offers are no longer on-ledger",
+      }, 409);
+    }
+
+    // XRPL lets the Destination of an offer cancel it, so broker-mode offers
+    // can be removed without asking the owner to sign again
+    const isBrokerCancellable = (o: NFTOfferData) => {
+      const ledgerOffer = ledgerOffers.get(o.offer_index!)!;
+      return ledgerOffer.destination === backendWallet.address || ledgerOffer.owner === backendWallet.address;
+    };
+    const brokerOffers = live.filter(isBrokerCancellable);
+    const ownerOffers = live.filter((o) => !isBrokerCancellable(o));
+
+    const response: CancelOfferResponse = {
+      success: true,
+      skipped_offer_ids: skipped.map((o) => o.id!),
+    };
+
+    if (brokerOffers.length > 0) {
+      const { txHash, deletedOfferIndexes } = await nftService.cancelOffers(brokerOffers.map((o) => o.offer_index!));
+      const cancelled = await offerService.confirmCancellation(brokerOffers, txHash, deletedOfferIndexes, {
+        source: "api",
+        actor: user_address,
+        payload: { tx_hash: txHash, deleted_offer_indexes: deletedOfferIndexes },
+      });
+      response.cancelled_offer_ids = cancelled.map((o) => o.id!);
+      response.cancel_tx_hash = txHash;
+    }
+
+    if (ownerOffers.length > 0) {
+      const xummService = sp.getXummService();
+      const payload = await xummService.createCancelOfferPayload(user_address, ownerOffers.map((o) => o.offer_index!), push_token);
+      if (!payload) throw new Error("Failed to create XUMM payload");
+      const enriched = xummService.enrichPayload(payload);
+
+      const cancelRequest = await offerService.createOffer({
+        nft_token_id: tokenId,
+        offer_type: "cancel",
+        user_address,
+        amount: "0",
+        payload_id: enriched.uuid,
+        deep_link: enriched.deepLink,
+        qr_code: payload.refs?.qr_png,
+        pushed: payload.pushed,
+      });
+      await offerService.requestCancellation(cancelRequest.id!, ownerOffers);
+
+      response.pending_offer_ids = ownerOffers.map((o) => o.id!);
+      response.cancel_request_id = cancelRequest.id;
+      response.payload_id = enriched.uuid;
+      response.deep_link = enriched.deepLink;
+      response.qr_code = payload.refs?.qr_png || `https://xumm.app/sign/${enriched.uuid}/qr`;
+      response.pushed = payload.pushed;
+    }
+
+    response.message = response.payload_id
+      ? "Sign the cancellation in XUMM to withdraw the remaining offers."
+      : "Offers cancelled.";
+
+    return jsonResponse(response);
+  } catch (err) {
+    console.error("cancel-offer error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+Cancel a single offer:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/cancel-offer' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"offer_id": "550e8400-e29b-41d4-a716-446655440000"
+}'
+
+Cancel all of your offers for one token:
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/cancel-offer' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D"
+}'
+
+Notes:
+- Only the caller's own sell/buy offers with a known offer_index that are not yet settled are considered
+- Offers naming the backend wallet as Destination (broker mode) are cancelled immediately by the backend
+- Other offers get one NFTokenCancelOffer XUMM payload; it is tracked as an offer_type 'cancel' row and
+  targeted rows point to it through cancel_request_id
+- Poll GET /check-offer-status?payload_id=<payload_id>; once the cancel tx is validated with tesSUCCESS
+  every targeted offer the ledger deleted moves to status 'cancelled' with cancel_tx_hash
+- Offers already gone from the ledger are returned in skipped_offer_ids
+
+*/
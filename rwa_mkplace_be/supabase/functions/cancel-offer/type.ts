@@ -0,0 +1,28 @@
+export type CancelOfferRequest = {
+    // Cancel a single offer row by id...
+    offer_id?: string;
+    // ...or every open offer the caller has for this token
+    nft_token_id?: string;
+};
+
+export type CancelOfferResponse = {
+    success: boolean;
+    // Offers removed right away by the backend (broker) wallet
+    cancelled_offer_ids?: string[];
+    cancel_tx_hash?: string;
+    // Offers waiting for the owner to sign the XUMM payload below
+    pending_offer_ids?: string[];
+    cancel_request_id?: string;
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    // Offers skipped because they are no longer on-ledger
+    skipped_offer_ids?: string[];
+    // human readable message or error
+    message?: string;
+    error?: string;
+};
+
+// Helper type for the handler function contract
+export type CancelOfferHandler = (input: CancelOfferRequest) => Promise<CancelOfferResponse>;
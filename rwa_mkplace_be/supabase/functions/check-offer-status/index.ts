@@ -2,7 +2,8 @@
 // Can be used by frontend to poll for status updates
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { NFTOfferService, NFTOfferSettlementService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
 import type { CheckOfferStatusRequest, CheckOfferStatusResponse } from "./type.ts";
 
 const corsHeaders = {
@@ -25,6 +26,8 @@ Deno.serve(async (req) => {
         });
     }
 
+    const sp = createServiceProvider();
+
     try {
         let payload_id: string | undefined;
         let offer_id: string | undefined;
@@ -49,7 +52,9 @@ Deno.serve(async (req) => {
             );
         }
 
-        const offerService = new NFTOfferService();
+        // Signed payloads are verified on-ledger before the offer is completed
+        const nftService = await sp.getNftService();
+        const offerService = new NFTOfferService(nftService);
 
         // Get the offer and check/sync status with XUMM
         let result;
@@ -85,6 +90,17 @@ Deno.serve(async (req) => {
             );
         }
 
+        if (result.updated) {
+            console.log(`Status updated for offer ${result.offer.id} to: ${result.offer.status}`);
+
+            // A newly validated sell or buy offer may complete a brokered pair
+            const settlementService = new NFTOfferSettlementService(nftService, sp.getBackendWallet().address, await sp.getTrustLineService());
+            const settlement = await settlementService.settleAfterCompletion(result.offer);
+            if (settlement) {
+                result.offer.settlement_tx_hash = settlement.tx_hash;
+            }
+        }
+
         // Return the offer status (updated or current)
         const response: CheckOfferStatusResponse = {
             success: true,
@@ -97,18 +113,17 @@ Deno.serve(async (req) => {
                 status: result.offer.status,
                 payload_id: result.offer.payload_id,
                 tx_hash: result.offer.tx_hash,
+                offer_index: result.offer.offer_index,
                 created_at: result.offer.created_at!,
                 updated_at: result.offer.updated_at!,
                 signed_at: result.offer.signed_at,
                 completed_at: result.offer.completed_at,
+                settlement_tx_hash: result.offer.settlement_tx_hash,
+                settled_at: result.offer.settled_at,
                 error_message: result.offer.error_message,
             }
         };
 
-        if (result.updated) {
-            console.log(`Status updated for offer ${result.offer.id} to: ${result.offer.status}`);
-        }
-
         return new Response(JSON.stringify(response), {
             headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
@@ -125,6 +140,12 @@ Deno.serve(async (req) => {
             status: 500,
             headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
+    } finally {
+        try {
+            await sp.disconnectAll();
+        } catch (_err) {
+            console.warn("Error disconnecting service provider instance:", _err);
+        }
     }
 });
 
@@ -158,6 +179,7 @@ Response format:
     "status": "completed",
     "payload_id": "abc-123-def",
     "tx_hash": "A1B2C3D4E5F6...",
+    "offer_index": "9C92E061381C1EF37A8CDE0E8FC35188BFC30B1883825042A64309AC09F4C36D",
     "created_at": "2024-01-01T12:00:00.000Z",
     "updated_at": "2024-01-01T12:05:00.000Z",
     "signed_at": "2024-01-01T12:04:30.000Z",
@@ -166,9 +188,12 @@ Response format:
 }
 
 Notes:
-- This function will automatically check XUMM for status updates if the offer is still pending
-- Status values: pending, signed, rejected, expired, completed, failed
+- This function will automatically check XUMM for status updates if the offer is still pending or signed
+- Signed transactions are looked up on XRPL (tx command); only a validated tesSUCCESS marks the offer completed,
+  any other engine result marks it failed with the result in error_message
+- Status values: pending, signed, rejected, expired, completed, failed, cancelled
 - Use this endpoint for polling or real-time status checks in your frontend
 - The function updates the database if it detects a status change from XUMM
+- Status changes follow the transition table in _shared/nftOffer/stateMachine.ts and are logged to nft_offer_events with source "poll"
 
 */
\ No newline at end of file
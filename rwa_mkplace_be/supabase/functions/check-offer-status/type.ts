@@ -8,16 +8,20 @@ export interface CheckOfferStatusResponse {
     offer?: {
         id: string;
         nft_token_id: string;
-        offer_type: 'sell' | 'buy';
+        offer_type: 'sell' | 'buy' | 'accept' | 'cancel';
         user_address: string;
         amount: string;
-        status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+        status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled';
         payload_id: string;
         tx_hash?: string;
+        offer_index?: string;
         created_at: string;
         updated_at: string;
         signed_at?: string;
         completed_at?: string;
+        // set once a sell or buy offer has been brokered by settlement
+        settlement_tx_hash?: string;
+        settled_at?: string;
         error_message?: string;
     };
     error?: string;
@@ -1,7 +1,21 @@
+import type { MintFlagOptions } from "../_shared/nft/flags.ts";
+import type { MetadataFieldError } from "../_shared/metadata/schema.ts";
+import type { DocumentAttachment, MetadataDocument } from "../_shared/metadata/documents.ts";
+
 export type CreateNftRequest = {
     name: string;
     image_url: string;
+    // Validated against the RWA metadata schema (see _shared/metadata/schema.ts)
     metadata?: Record<string, unknown>;
+    // Creator royalty on every resale, as XRPL TransferFee in 1/100000 units
+    // (0 - 50000, i.e. 0% - 50%); defaults to 0
+    transfer_fee?: number;
+    // NFTokenMint flags; transferable defaults to true, the others to false
+    flags?: MintFlagOptions;
+    // Collection the token belongs to (0 - 4294967295); defaults to 0
+    taxon?: number;
+    // Legal documents uploaded through upload-asset-media, anchored by hash in the metadata
+    documents?: DocumentAttachment[];
 };
 
 export type OfferAcceptance = {
@@ -21,6 +35,14 @@ export type CreateNftResponse = {
     mint_explorer_link?: string;
     network?: string;
     minter_address?: string;
+    transfer_fee?: number;
+    flags?: Required<MintFlagOptions>;
+    taxon?: number;
+    // NFToken URI and the SHA-256 of the metadata JSON it references (served by get-metadata)
+    metadata_uri?: string;
+    metadata_hash?: string;
+    // Documents as embedded in the metadata
+    documents?: MetadataDocument[];
 
     // Give to creator related (sell offer with 0)
     // for transfer nft to creator
@@ -35,6 +57,9 @@ export type CreateNftResponse = {
     // human readable message or error
     message?: string;
     error?: string;
+    // Metadata validation failures (400)
+    missing_fields?: string[];
+    invalid_fields?: MetadataFieldError[];
 };
 
 // Helper type for the handler function contract
@@ -1,8 +1,20 @@
+// Price in an issued currency (IOU), e.g. RLUSD or a USD stablecoin
+export type IssuedAmount = {
+    currency: string; // 3-character code or 40-char hex
+    issuer: string;
+    value: string; // decimal string, e.g. "125.50"
+};
+
 export type CreateOfferRequest = {
     nft_token_id: string;
     type: "sell" | "buy";
     // Amount in drops (1 drop = 0.000001 XRP). Use a number here for API ease.
-    amount?: number; // optional, defaults to 0
+    // Pass an IssuedAmount instead to price the offer in an IOU.
+    amount?: number | IssuedAmount; // optional, defaults to 0
+    // On-ledger expiry of the offer, either an ISO 8601 time or seconds from now.
+    // Give at most one; without either the offer never expires.
+    expires_at?: string;
+    expires_in?: number;
 };
 
 export type OfferAcceptance = {
@@ -19,6 +31,8 @@ export type CreateOfferResponse = {
     // Payload details for XUMM signing
     payload_id?: string;
     deep_link?: string;
+    // When the offer expires on-ledger, if an expiry was requested
+    offer_expires_at?: string;
     // human readable message or error
     message?: string;
     error?: string;
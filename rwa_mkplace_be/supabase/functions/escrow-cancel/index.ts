@@ -0,0 +1,107 @@
+// Escrow-cancel: returns created escrows to the buyer with EscrowCancel once
+// their cancel_after deadline has passed. Pending escrows are synced with XUMM first.
+// pg_cron invokes it every 15 minutes (migration 20240920000019_schedule_functions.sql);
+// callers must send the service role key or CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import type { EscrowCancelRequest, EscrowCancelResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("escrow-cancel: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as EscrowCancelRequest;
+
+  const sp = createServiceProvider();
+
+  try {
+    const escrowService = await sp.getEscrowService();
+    const result = await escrowService.cancelExpired(body.escrow_id, sp.getXummService());
+    const cancelled = result.processed.filter((item) => item.status === "cancelled").length;
+
+    const response: EscrowCancelResponse = {
+      success: true,
+      ...result,
+      message: `Cancelled ${cancelled} escrow(s), ${result.processed.length - cancelled} failure(s), ${result.waiting} waiting`,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("escrow-cancel error:", err);
+
+    const errorResponse: EscrowCancelResponse = {
+      success: false,
+      confirmed: 0,
+      processed: [],
+      waiting: 0,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+}));
+
+/* To invoke locally:
+
+1. Cancel a single escrow:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/escrow-cancel' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"escrow_id": "550e8400-e29b-41d4-a716-446655440000"}'
+
+2. Process every created escrow:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/escrow-cancel' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+Response format:
+{
+  "success": true,
+  "confirmed": 0,
+  "processed": [
+    {
+      "escrow_id": "550e8400-e29b-41d4-a716-446655440000",
+      "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+      "status": "cancelled",
+      "tx_hash": "A1B2C3D4E5F6..."
+    }
+  ],
+  "waiting": 2,
+  "message": "Cancelled 1 escrow(s), 0 failure(s), 2 waiting"
+}
+
+Notes:
+- The ledger only accepts EscrowCancel after CancelAfter; earlier escrows are counted as waiting
+- The backend wallet submits EscrowCancel with Owner = buyer and OfferSequence; the XRP goes
+  back to the buyer and the backend wallet only pays the transaction fee
+- Failures are reported per escrow and retried on the next run
+
+*/
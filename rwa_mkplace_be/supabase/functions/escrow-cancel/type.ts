@@ -0,0 +1,17 @@
+import type { EscrowRunItem } from "../_shared/escrow/type.ts";
+
+export interface EscrowCancelRequest {
+    // When omitted, every created escrow past its deadline is cancelled
+    escrow_id?: string;
+}
+
+export interface EscrowCancelResponse {
+    success: boolean;
+    // Pending escrows confirmed on-ledger during the run
+    confirmed: number;
+    processed: EscrowRunItem[];
+    // Created escrows whose deadline has not passed
+    waiting: number;
+    message?: string;
+    error?: string;
+}
@@ -0,0 +1,199 @@
+// Escrow-create: the authenticated buyer locks XRP for the current NFT owner in
+// an EscrowCreate signed through XUMM. The escrow is tracked in the escrows
+// table; escrow-finish releases it once the NFT is delivered and escrow-cancel
+// returns it after the deadline.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { rippleTimeToISOTime, unixTimeToRippleTime } from "npm:xrpl@4.4.0";
+import { NFTCatalogRepository } from "../_shared/nftCatalog/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import config from "../_shared/config/index.ts";
+import type { EscrowCreateRequest, EscrowCreateResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Lifetime of the XUMM payload; escrow times must be later than this
+const PAYLOAD_EXPIRE_SECONDS = 600;
+
+console.log("escrow-create: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: EscrowCreateResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const body = (await req.json()) as EscrowCreateRequest;
+  const { nft_token_id, amount, cancel_after, cancel_in, finish_after, use_condition = true } = body;
+  const { sub: buyer_address, push_token } = ctx.user;
+
+  if (!nft_token_id || amount === undefined) {
+    return jsonResponse({ success: false, error: "Missing required fields: nft_token_id, amount" }, 400);
+  }
+
+  const drops = String(amount);
+  if (!/^\d+$/.test(drops) || BigInt(drops) <= 0n) {
+    return jsonResponse({ success: false, error: "amount must be a positive whole number of drops" }, 400);
+  }
+
+  if (cancel_after !== undefined && cancel_in !== undefined) {
+    return jsonResponse({ success: false, error: "Provide either cancel_after or cancel_in, not both" }, 400);
+  }
+  if (cancel_in !== undefined && (typeof cancel_in !== "number" || !Number.isInteger(cancel_in))) {
+    return jsonResponse({ success: false, error: "cancel_in must be a whole number of seconds" }, 400);
+  }
+
+  // Escrow times are whole seconds on-ledger
+  const cancelAt = cancel_after !== undefined
+    ? Date.parse(cancel_after)
+    : Date.now() + (cancel_in ?? config.ESCROW_DURATION) * 1000;
+  const finishAt = finish_after !== undefined ? Date.parse(finish_after) : undefined;
+  const earliest = Date.now() + PAYLOAD_EXPIRE_SECONDS * 1000;
+
+  if (Number.isNaN(cancelAt) || (finishAt !== undefined && Number.isNaN(finishAt))) {
+    return jsonResponse({ success: false, error: "cancel_after and finish_after must be ISO 8601 date-times" }, 400);
+  }
+  if (cancelAt <= earliest || (finishAt !== undefined && finishAt <= earliest)) {
+    return jsonResponse({ success: false, error: `Escrow times must be more than ${PAYLOAD_EXPIRE_SECONDS} seconds in the future` }, 400);
+  }
+  if (finishAt !== undefined && finishAt >= cancelAt) {
+    return jsonResponse({ success: false, error: "finish_after must be before the cancel deadline" }, 400);
+  }
+  if (!use_condition && finishAt === undefined) {
+    return jsonResponse({ success: false, error: "finish_after is required for escrows without a condition" }, 400);
+  }
+
+  const sp = createServiceProvider();
+
+  try {
+    const nft = await new NFTCatalogRepository().findByTokenId(nft_token_id);
+    if (!nft || nft.burned_at) {
+      return jsonResponse({ success: false, error: "NFT not found" }, 404);
+    }
+    if (nft.owner_address === buyer_address) {
+      return jsonResponse({ success: false, error: "You already own this NFT" }, 400);
+    }
+
+    const escrowService = await sp.getEscrowService();
+    const cryptoCondition = use_condition ? await escrowService.generateCondition() : undefined;
+
+    const cancelAfter = unixTimeToRippleTime(cancelAt);
+    const finishAfter = finishAt !== undefined ? unixTimeToRippleTime(finishAt) : undefined;
+
+    const xummService = sp.getXummService();
+    const payload = await xummService.createEscrowCreatePayload(buyer_address, {
+      destination: nft.owner_address,
+      amount: drops,
+      condition: cryptoCondition?.condition,
+      finishAfter,
+      cancelAfter,
+      nftTokenId: nft_token_id,
+    }, push_token);
+    if (!payload) throw new Error("Failed to create XUMM payload");
+    const enriched = xummService.enrichPayload(payload);
+
+    const escrow = await escrowService.createEscrow({
+      nft_token_id,
+      buyer_address,
+      seller_address: nft.owner_address,
+      amount: drops,
+      condition: cryptoCondition?.condition,
+      fulfillment: cryptoCondition?.fulfillment,
+      finish_after: finishAfter !== undefined ? rippleTimeToISOTime(finishAfter) : undefined,
+      cancel_after: rippleTimeToISOTime(cancelAfter),
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png,
+      pushed: payload.pushed,
+    });
+
+    return jsonResponse({
+      success: true,
+      escrow_id: escrow.id,
+      nft_token_id,
+      seller_address: escrow.seller_address,
+      amount: escrow.amount,
+      condition: escrow.condition,
+      finish_after: escrow.finish_after,
+      cancel_after: escrow.cancel_after,
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png || `https://xumm.app/sign/${enriched.uuid}/qr`,
+      pushed: payload.pushed,
+      message: payload.pushed
+        ? "Escrow request sent to your XUMM wallet. Please sign to lock the payment."
+        : "Scan the QR code with XUMM to sign and lock the payment.",
+    });
+  } catch (err) {
+    console.error("escrow-create error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/escrow-create' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"nft_token_id": "000800006203F49C21D5D6E022CB16DE3538F248662FC73C29ABA6A90000000D",
+"amount": 250000000,
+"cancel_in": 604800
+}'
+
+Response format:
+{
+  "success": true,
+  "escrow_id": "uuid",
+  "seller_address": "r...",
+  "amount": "250000000",
+  "condition": "A0258020...810120",
+  "cancel_after": "2024-09-27T12:00:00.000Z",
+  "payload_id": "...",
+  "deep_link": "...",
+  "qr_code": "...",
+  "pushed": true,
+  "message": "Escrow request sent to your XUMM wallet. Please sign to lock the payment."
+}
+
+Notes:
+- The seller is the NFT's current owner in the nfts catalogue; amounts are XRP drops
+- With use_condition (default) the fulfillment is kept in the escrows table and only the
+  backend can release the funds, which escrow-finish does once the NFT is in the buyer's account
+- Without a condition finish_after is required and either party can finish the escrow after it
+- The seller delivers the NFT with a sell offer for 0 XRP to the buyer, which the buyer accepts
+- Poll GET /escrow-status?escrow_id=<escrow_id> until the escrow is 'created'
+
+*/
@@ -0,0 +1,35 @@
+export type EscrowCreateRequest = {
+    nft_token_id: string;
+    // Price in drops, locked until the NFT is delivered
+    amount: number | string;
+    // Deadline after which the escrow can be cancelled: ISO 8601 time or
+    // seconds from now (at most one; defaults to ESCROW_DURATION)
+    cancel_after?: string;
+    cancel_in?: number;
+    // Earliest time the escrow can be finished (ISO 8601); required when use_condition is false
+    finish_after?: string;
+    // Lock the funds with a crypto-condition only the backend can fulfil (default true)
+    use_condition?: boolean;
+};
+
+export type EscrowCreateResponse = {
+    success: boolean;
+    escrow_id?: string;
+    nft_token_id?: string;
+    seller_address?: string;
+    amount?: string;
+    condition?: string;
+    finish_after?: string;
+    cancel_after?: string;
+    // Payload details for XUMM signing
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    // human readable message or error
+    message?: string;
+    error?: string;
+};
+
+// Helper type for the handler function contract
+export type EscrowCreateHandler = (input: EscrowCreateRequest) => Promise<EscrowCreateResponse>;
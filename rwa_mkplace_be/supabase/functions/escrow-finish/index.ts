@@ -0,0 +1,111 @@
+// Escrow-finish: releases created escrows to the seller with EscrowFinish once
+// the NFT is in the buyer's account. Pending escrows are synced with XUMM first.
+// pg_cron invokes it every minute (migration 20240920000019_schedule_functions.sql)
+// and it can be called after the seller delivers; callers must send the service
+// role key or CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import type { EscrowFinishRequest, EscrowFinishResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("escrow-finish: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as EscrowFinishRequest;
+
+  const sp = createServiceProvider();
+
+  try {
+    const escrowService = await sp.getEscrowService();
+    const result = await escrowService.finishDelivered(body.escrow_id, sp.getXummService());
+    const finished = result.processed.filter((item) => item.status === "finished").length;
+
+    const response: EscrowFinishResponse = {
+      success: true,
+      ...result,
+      message: `Finished ${finished} escrow(s), ${result.processed.length - finished} failure(s), ${result.waiting} waiting`,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("escrow-finish error:", err);
+
+    const errorResponse: EscrowFinishResponse = {
+      success: false,
+      confirmed: 0,
+      processed: [],
+      waiting: 0,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+}));
+
+/* To invoke locally:
+
+1. Finish a single escrow:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/escrow-finish' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"escrow_id": "550e8400-e29b-41d4-a716-446655440000"}'
+
+2. Process every created escrow:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/escrow-finish' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+Response format:
+{
+  "success": true,
+  "confirmed": 0,
+  "processed": [
+    {
+      "escrow_id": "550e8400-e29b-41d4-a716-446655440000",
+      "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+      "status": "finished",
+      "tx_hash": "A1B2C3D4E5F6..."
+    }
+  ],
+  "waiting": 2,
+  "message": "Finished 1 escrow(s), 0 failure(s), 2 waiting"
+}
+
+Notes:
+- Delivery is checked with account_nfts on the buyer's account (validated ledger). An escrow is not
+  released when the sales table has a sale of the token to the buyer since the escrow was created:
+  the buyer already paid for the NFT in that sale, so it is not the seller's delivery
+- The backend wallet submits EscrowFinish with Owner = buyer, OfferSequence and, for conditional
+  escrows, the stored Condition/Fulfillment; it only pays the transaction fee
+- Escrows past cancel_after are left to escrow-cancel, since the ledger no longer allows finishing them
+- Failures are reported per escrow and retried on the next run
+
+*/
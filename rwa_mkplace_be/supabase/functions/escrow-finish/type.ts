@@ -0,0 +1,17 @@
+import type { EscrowRunItem } from "../_shared/escrow/type.ts";
+
+export interface EscrowFinishRequest {
+    // When omitted, every created escrow is checked
+    escrow_id?: string;
+}
+
+export interface EscrowFinishResponse {
+    success: boolean;
+    // Pending escrows confirmed on-ledger during the run
+    confirmed: number;
+    processed: EscrowRunItem[];
+    // Created escrows not delivered yet (or before finish_after)
+    waiting: number;
+    message?: string;
+    error?: string;
+}
@@ -0,0 +1,114 @@
+// Escrow-status: lets the buyer or seller of an escrow poll it. Pending escrows
+// are synced with their XUMM payload and confirmed on-ledger first.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import type { EscrowStatusRequest, EscrowStatusResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("escrow-status: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: EscrowStatusResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const escrow_id = req.method === "GET"
+    ? new URL(req.url).searchParams.get("escrow_id") || undefined
+    : ((await req.json()) as EscrowStatusRequest).escrow_id;
+
+  if (!escrow_id) {
+    return jsonResponse({ success: false, error: "Missing escrow_id parameter" }, 400);
+  }
+
+  const sp = createServiceProvider();
+
+  try {
+    const escrowService = await sp.getEscrowService();
+    const found = await escrowService.getEscrowById(escrow_id);
+    if (!found || (found.buyer_address !== ctx.user.sub && found.seller_address !== ctx.user.sub)) {
+      return jsonResponse({ success: false, error: "Escrow not found" }, 404);
+    }
+
+    const { escrow, updated } = await escrowService.checkAndSyncStatus(found, sp.getXummService());
+    if (updated) {
+      console.log(`Status updated for escrow ${escrow.id} to: ${escrow.status}`);
+    }
+
+    return jsonResponse({
+      success: true,
+      escrow: {
+        id: escrow.id!,
+        nft_token_id: escrow.nft_token_id,
+        buyer_address: escrow.buyer_address,
+        seller_address: escrow.seller_address,
+        amount: escrow.amount,
+        condition: escrow.condition,
+        finish_after: escrow.finish_after,
+        cancel_after: escrow.cancel_after,
+        status: escrow.status,
+        payload_id: escrow.payload_id,
+        create_tx_hash: escrow.create_tx_hash,
+        offer_sequence: escrow.offer_sequence,
+        finish_tx_hash: escrow.finish_tx_hash,
+        cancel_tx_hash: escrow.cancel_tx_hash,
+        finished_at: escrow.finished_at,
+        cancelled_at: escrow.cancelled_at,
+        error_message: escrow.error_message,
+        created_at: escrow.created_at!,
+        updated_at: escrow.updated_at!,
+      },
+    });
+  } catch (err) {
+    console.error("escrow-status error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/escrow-status?escrow_id=<escrow_id>' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>'
+
+Notes:
+- Only the escrow's buyer or seller can read it; other callers get 404
+- pending: EscrowCreate payload not signed yet, or signed but not validated
+- created: funds are locked on-ledger (offer_sequence is set)
+- finished / cancelled: released to the seller by escrow-finish, or returned by escrow-cancel
+- rejected / expired / failed: the payload was declined or timed out, or the EscrowCreate failed
+
+*/
@@ -0,0 +1,34 @@
+import type { EscrowStatus } from "../_shared/escrow/type.ts";
+
+export type EscrowStatusRequest = {
+    escrow_id: string;
+};
+
+// Escrow row as returned to its buyer or seller; the fulfillment is never exposed
+export type EscrowSummary = {
+    id: string;
+    nft_token_id: string;
+    buyer_address: string;
+    seller_address: string;
+    amount: string;
+    condition?: string;
+    finish_after?: string;
+    cancel_after: string;
+    status: EscrowStatus;
+    payload_id: string;
+    create_tx_hash?: string;
+    offer_sequence?: number;
+    finish_tx_hash?: string;
+    cancel_tx_hash?: string;
+    finished_at?: string;
+    cancelled_at?: string;
+    error_message?: string;
+    created_at: string;
+    updated_at: string;
+};
+
+export type EscrowStatusResponse = {
+    success: boolean;
+    escrow?: EscrowSummary;
+    error?: string;
+};
@@ -0,0 +1,129 @@
+// Offer expiry: runs the expire_old_offers() SQL function so pending rows past
+// their XUMM payload window, and signed rows never submitted within the grace
+// period, become expired. pg_cron invokes it every minute (migration
+// 20240920000019_schedule_functions.sql); callers must send the service role key
+// or CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import config from "../_shared/config/index.ts";
+import type { ExpireOffersRequest, ExpireOffersResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("expire-offers: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as ExpireOffersRequest;
+  const signedGrace = body.signed_grace_seconds ?? config.SIGNED_OFFER_GRACE;
+
+  if (!Number.isInteger(signedGrace) || signedGrace < 0) {
+    return new Response(
+      JSON.stringify({ success: false, error: "signed_grace_seconds must be a non-negative integer" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  try {
+    const offerService = new NFTOfferService();
+    const { pending_expired, signed_expired } = await offerService.expireOldOffers(signedGrace);
+
+    const total = pending_expired + signed_expired;
+    const alert = total >= config.EXPIRY_ALERT_THRESHOLD;
+
+    // One JSON line per run so log drains can chart and alert on the counts
+    const metrics = JSON.stringify({ metric: "offer_expiry", pending_expired, signed_expired, total, alert });
+    if (alert) {
+      console.warn(metrics);
+    } else {
+      console.log(metrics);
+    }
+
+    const response: ExpireOffersResponse = {
+      success: true,
+      pending_expired,
+      signed_expired,
+      alert,
+      message: `Expired ${pending_expired} pending and ${signed_expired} signed offer(s)`,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("expire-offers error:", err);
+
+    const errorResponse: ExpireOffersResponse = {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+}));
+
+/* To invoke locally:
+
+1. Run the expiry:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/expire-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+2. Expire signed-but-unsubmitted offers after 5 minutes instead of SIGNED_OFFER_GRACE:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/expire-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"signed_grace_seconds": 300}'
+
+Response format:
+{
+  "success": true,
+  "pending_expired": 3,
+  "signed_expired": 1,
+  "alert": false,
+  "message": "Expired 3 pending and 1 signed offer(s)"
+}
+
+Scheduling (pg_cron + pg_net, with the project URL and service role key stored in Vault):
+   select cron.schedule(
+     'expire-offers',
+     '* * * * *',
+     $$
+     select net.http_post(
+       url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+              || '/functions/v1/expire-offers',
+       headers := jsonb_build_object(
+         'Content-Type', 'application/json',
+         'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+       ),
+       body := '{}'::jsonb
+     );
+     $$
+   );
+
+Notes:
+- Pending rows expire once payload_expires_at (10 minutes after creation) has passed
+- Signed rows without a tx_hash expire after SIGNED_OFFER_GRACE seconds (default 1800)
+- Every expired row gets an nft_offer_events entry with source "cron" and actor "expire_old_offers"
+- Each run logs {"metric":"offer_expiry",...}; runs expiring EXPIRY_ALERT_THRESHOLD (default 50)
+  or more rows log it as a warning and return "alert": true
+
+*/
@@ -0,0 +1,14 @@
+export interface ExpireOffersRequest {
+    // Overrides SIGNED_OFFER_GRACE for this run
+    signed_grace_seconds?: number;
+}
+
+export interface ExpireOffersResponse {
+    success: boolean;
+    pending_expired?: number;
+    signed_expired?: number;
+    // True when the total reached EXPIRY_ALERT_THRESHOLD
+    alert?: boolean;
+    message?: string;
+    error?: string;
+}
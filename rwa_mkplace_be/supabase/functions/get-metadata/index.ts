@@ -0,0 +1,109 @@
+// Function serving token metadata from the content-addressed store
+// NFToken URIs point here (through METADATA_BASE_URL) or carry a hash:// reference it resolves
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { isMetadataHash, MetadataService, parseMetadataUri } from "../_shared/metadata/index.ts";
+import { NFTCatalogRepository } from "../_shared/nftCatalog/index.ts";
+import type { GetMetadataErrorResponse, GetMetadataRequest } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("get-metadata: starting function");
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const errorResponse = (error: string, status: number) =>
+    new Response(JSON.stringify({ success: false, error } satisfies GetMetadataErrorResponse), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    let request: GetMetadataRequest;
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      request = {
+        hash: url.searchParams.get("hash") || undefined,
+        uri: url.searchParams.get("uri") || undefined,
+        nft_token_id: url.searchParams.get("nft_token_id") || undefined,
+      };
+    } else {
+      request = (await req.json()) as GetMetadataRequest;
+    }
+
+    let hash: string | null | undefined;
+    if (request.hash) {
+      hash = request.hash.toLowerCase();
+      if (!isMetadataHash(hash)) return errorResponse("hash must be a hex SHA-256", 400);
+    } else if (request.uri) {
+      hash = parseMetadataUri(request.uri);
+      if (!hash) return errorResponse("uri does not reference the metadata store", 400);
+    } else if (request.nft_token_id) {
+      const nft = await new NFTCatalogRepository().findByTokenId(request.nft_token_id);
+      if (!nft) return errorResponse("NFT not found", 404);
+      hash = nft.metadata_hash;
+      if (!hash) return errorResponse("Token metadata is stored inline in its URI", 404);
+    } else {
+      return errorResponse("Provide hash, uri or nft_token_id", 400);
+    }
+
+    // Throws when the stored content no longer hashes to `hash`
+    const stored = await new MetadataService().get(hash);
+    if (!stored) return errorResponse("Metadata not found", 404);
+
+    // The exact stored bytes are returned so callers can check the hash themselves
+    return new Response(stored.content, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "ETag": `"${stored.hash}"`,
+        "X-Content-SHA256": stored.hash,
+      },
+    });
+  } catch (err) {
+    console.error("get-metadata error:", err);
+    return errorResponse(err instanceof Error ? err.message : String(err), 500);
+  }
+});
+
+/* To invoke locally:
+
+1. By hash (the form NFToken URIs use when METADATA_BASE_URL points here):
+   curl 'http://127.0.0.1:54321/functions/v1/get-metadata?hash=3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776'
+
+2. By hash:// reference, as read from a token URI:
+   curl 'http://127.0.0.1:54321/functions/v1/get-metadata?uri=hash://sha256/3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776'
+
+3. By catalogue token:
+   curl 'http://127.0.0.1:54321/functions/v1/get-metadata?nft_token_id=00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D'
+
+Response format (the stored document, byte for byte):
+{"name":"Beach Villa","image":"https://example.com/villa.png","minted_on":"2024-01-01T12:00:00.000Z","category":"real-estate"}
+
+Headers:
+- ETag / X-Content-SHA256: the SHA-256 of the body; clients can hash the body to verify it
+- Cache-Control: documents are immutable, so responses can be cached indefinitely
+
+Notes:
+- XRPL limits NFToken URIs to 256 bytes, so create-nft stores the metadata JSON in nft_metadata
+  under its SHA-256 and mints with a short URI: METADATA_BASE_URL + hash, or hash://sha256/<hash>
+- Every read re-hashes the stored content; a mismatch is logged and returns 500 instead of the document
+- Tokens minted before the store existed carry their JSON inline in the URI and return 404 here
+- Public (verify_jwt = false) so wallets and explorers can resolve token URIs without credentials
+
+*/
@@ -0,0 +1,14 @@
+export interface GetMetadataRequest {
+  // SHA-256 of the document (lowercase hex)
+  hash?: string;
+  // NFToken URI referencing the document (hash://sha256/<hash> or METADATA_BASE_URL<hash>)
+  uri?: string;
+  // Catalogue token whose metadata to return
+  nft_token_id?: string;
+}
+
+// Successful responses are the stored JSON document itself; errors use this shape
+export interface GetMetadataErrorResponse {
+  success: false;
+  error: string;
+}
@@ -0,0 +1,120 @@
+// Ledger indexer: reads validated ledgers since the stored cursor and mirrors
+// NFTokenMint / NFTokenAcceptOffer / NFTokenCancelOffer / NFTokenBurn into
+// the nfts catalogue and nft_offers statuses.
+// Edge functions cannot hold a ledger subscription, so pg_cron invokes this every
+// minute (migration 20240920000019_schedule_functions.sql); callers must send the
+// service role key or CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { LedgerIndexer } from "../_shared/indexer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import config from "../_shared/config/index.ts";
+import type { IndexLedgerRequest, IndexLedgerResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("index-ledger: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as IndexLedgerRequest;
+
+  const sp = createServiceProvider();
+
+  try {
+    const client = await sp.getClient();
+    const backendWallet = sp.getBackendWallet();
+
+    // Without Clio only the backend wallet's own transactions are seen
+    const clioClient = await sp.getClioClient().catch((err) => {
+      console.warn("Clio unavailable, indexing backend wallet transactions only:", err);
+      return null;
+    });
+
+    const indexer = new LedgerIndexer(client, clioClient, [backendWallet.address], config.INDEXER_START_LEDGER);
+    const result = await indexer.run(body.max_ledgers);
+
+    const response: IndexLedgerResponse = {
+      success: true,
+      result,
+      message: result.from_ledger === null
+        ? "Already up to date"
+        : `Indexed ledgers ${result.from_ledger}-${result.to_ledger}`,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("index-ledger error:", err);
+
+    const errorResponse: IndexLedgerResponse = {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+}));
+
+/* To invoke locally:
+
+1. Catch up from the stored cursor:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/index-ledger' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+2. Limit the range handled in one call:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/index-ledger' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"max_ledgers": 2000}'
+
+Response format:
+{
+  "success": true,
+  "result": {
+    "from_ledger": 10482001,
+    "to_ledger": 10482950,
+    "transactions": 14,
+    "events": { "mint": 2, "transfer": 1, "cancel": 1, "burn": 0 },
+    "nfts_updated": 3,
+    "offers_updated": 2
+  },
+  "message": "Indexed ledgers 10482001-10482950"
+}
+
+Notes:
+- The last processed ledger is kept in ledger_cursors ('nft-indexer'); after downtime
+  the next call backfills from there. INDEXER_START_LEDGER sets the first run's start
+- Transactions come from account_tx for the backend wallet and Clio nft_history for
+  every catalogued token and token with open offers
+- Accepts update nfts.owner_address and complete the consumed offers; open bids are
+  pointed at the new owner. Cancels mark offers cancelled, burns set nfts.burned_at
+  and fail the token's open offers
+- Re-processing a ledger is harmless, so a failed run can simply be retried
+
+*/
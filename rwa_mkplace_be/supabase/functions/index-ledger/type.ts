@@ -0,0 +1,13 @@
+import type { IndexerRunResult } from "../_shared/indexer/index.ts";
+
+export interface IndexLedgerRequest {
+    // Upper bound on ledgers processed in one invocation (default 10000)
+    max_ledgers?: number;
+}
+
+export interface IndexLedgerResponse {
+    success: boolean;
+    result?: IndexerRunResult;
+    message?: string;
+    error?: string;
+}
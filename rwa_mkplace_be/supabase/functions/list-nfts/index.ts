@@ -0,0 +1,199 @@
+// Function to browse the NFT catalogue with owner, category and text search filters
+// Backs the My Assets and Marketplace pages
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTCatalogRepository } from "../_shared/nftCatalog/index.ts";
+import { fromMintFlags, MAX_TAXON } from "../_shared/nft/flags.ts";
+import type { VerificationStatus } from "../_shared/attestation/index.ts";
+import type { ListNftsRequest, ListNftsResponse, NftData } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("list-nfts: starting function");
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    let filters: ListNftsRequest = {};
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      filters = {
+        owner_address: url.searchParams.get("owner_address") || undefined,
+        category: url.searchParams.get("category") || undefined,
+        taxon: url.searchParams.get("taxon") ? parseInt(url.searchParams.get("taxon")!) : undefined,
+        search: url.searchParams.get("search") || undefined,
+        verification_status: (url.searchParams.get("verification_status") as VerificationStatus) || undefined,
+        limit: url.searchParams.get("limit") ? parseInt(url.searchParams.get("limit")!) : 50,
+        offset: url.searchParams.get("offset") ? parseInt(url.searchParams.get("offset")!) : 0,
+      };
+    } else {
+      const body = (await req.json()) as ListNftsRequest;
+      filters = {
+        ...body,
+        limit: body.limit || 50,
+        offset: body.offset || 0,
+      };
+    }
+
+    if (filters.taxon !== undefined && (!Number.isInteger(filters.taxon) || filters.taxon < 0 || filters.taxon > MAX_TAXON)) {
+      return new Response(JSON.stringify({ error: `taxon must be a whole number between 0 and ${MAX_TAXON}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate limit
+    if (filters.limit! > 100) {
+      filters.limit = 100; // Cap at 100 to prevent excessive queries
+    }
+
+    const repository = new NFTCatalogRepository();
+    const result = await repository.findMany(filters);
+
+    const mappedNfts: NftData[] = result.nfts.map(nft => ({
+      nft_token_id: nft.nft_token_id,
+      issuer: nft.issuer,
+      owner_address: nft.owner_address,
+      creator_address: nft.creator_address,
+      taxon: nft.taxon,
+      flags: nft.flags,
+      ...fromMintFlags(nft.flags),
+      transfer_fee: nft.transfer_fee,
+      name: nft.name,
+      image_url: nft.image_url,
+      category: nft.category,
+      metadata: nft.metadata,
+      metadata_uri: nft.metadata_uri,
+      metadata_hash: nft.metadata_hash,
+      verification_status: nft.verification_status ?? 'unverified',
+      verified_at: nft.verified_at,
+      verified_by: nft.verified_by,
+      mint_tx_hash: nft.mint_tx_hash,
+      network: nft.network,
+      created_at: nft.created_at!,
+      updated_at: nft.updated_at!,
+    }));
+
+    const response: ListNftsResponse = {
+      success: true,
+      nfts: mappedNfts,
+      total_count: result.count,
+      limit: filters.limit!,
+      offset: filters.offset!,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (err) {
+    console.error("list-nfts error:", err);
+
+    const errorResponse: ListNftsResponse = {
+      success: false,
+      nfts: [],
+      total_count: 0,
+      limit: 0,
+      offset: 0,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
+
+/* To invoke locally:
+
+1. Get all NFTs (GET request):
+   curl 'http://127.0.0.1:54321/functions/v1/list-nfts'
+
+2. Get NFTs held by an account (My Assets):
+   curl 'http://127.0.0.1:54321/functions/v1/list-nfts?owner_address=rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN'
+
+3. Filter by category and search text:
+   curl 'http://127.0.0.1:54321/functions/v1/list-nfts?category=real-estate&search=villa'
+
+   Or by collection taxon:
+   curl 'http://127.0.0.1:54321/functions/v1/list-nfts?taxon=42'
+
+   Or by verification status (e.g. the review queue for verifiers):
+   curl 'http://127.0.0.1:54321/functions/v1/list-nfts?verification_status=unverified'
+
+4. POST request:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/list-nfts' \
+     -H 'Content-Type: application/json' \
+     -d '{
+       "owner_address": "rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN",
+       "search": "villa",
+       "limit": 20,
+       "offset": 0
+     }'
+
+Response format:
+{
+  "success": true,
+  "nfts": [
+    {
+      "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+      "issuer": "rBackendWallet...",
+      "owner_address": "rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN",
+      "creator_address": "rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN",
+      "taxon": 0,
+      "flags": 8,
+      "burnable": false,
+      "only_xrp": false,
+      "transferable": true,
+      "transfer_fee": 0,
+      "name": "Beach Villa",
+      "image_url": "https://example.com/villa.png",
+      "category": "real-estate",
+      "metadata": { "name": "Beach Villa", "image": "https://example.com/villa.png", "description": "..." },
+      "metadata_uri": "hash://sha256/3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776",
+      "metadata_hash": "3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776",
+      "verification_status": "verified",
+      "verified_at": "2024-01-02T09:30:00.000Z",
+      "verified_by": "rVerifier...",
+      "mint_tx_hash": "A1B2C3D4E5F6...",
+      "network": "testnet",
+      "created_at": "2024-01-01T12:00:00.000Z",
+      "updated_at": "2024-01-01T12:00:00.000Z"
+    }
+  ],
+  "total_count": 1,
+  "limit": 50,
+  "offset": 0
+}
+
+Filter Parameters:
+- owner_address: Current holder of the token
+- category: metadata.category given at mint (case-insensitive)
+- taxon: Collection taxon given at mint (0 - 4294967295)
+- search: Case-insensitive match on name or metadata.description
+- verification_status: unverified, verified or rejected (set by attest-nft)
+- limit: Number of results to return (max 100, default 50)
+- offset: Number of results to skip for pagination (default 0)
+
+Notes:
+- Rows are written by create-nft after a successful mint. owner_address starts as the
+  minting (backend) wallet and changes once the transfer offer is accepted.
+- burnable, only_xrp and transferable are the NFTokenMint flags decoded from flags.
+
+*/
@@ -0,0 +1,46 @@
+import type { VerificationStatus } from "../_shared/attestation/index.ts";
+
+export interface ListNftsRequest {
+  owner_address?: string;
+  category?: string;
+  taxon?: number;
+  search?: string;
+  verification_status?: VerificationStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NftData {
+  nft_token_id: string;
+  issuer: string;
+  owner_address: string;
+  creator_address?: string;
+  taxon: number;
+  flags: number;
+  burnable: boolean;
+  only_xrp: boolean;
+  transferable: boolean;
+  transfer_fee: number;
+  name?: string;
+  image_url?: string;
+  category?: string;
+  metadata: Record<string, unknown>;
+  metadata_uri?: string;
+  metadata_hash?: string;
+  verification_status: VerificationStatus;
+  verified_at?: string;
+  verified_by?: string; // verifier of the latest attestation
+  mint_tx_hash: string;
+  network: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListNftsResponse {
+  success: boolean;
+  nfts: NftData[];
+  total_count: number;
+  limit: number;
+  offset: number;
+  error?: string;
+}
@@ -0,0 +1,176 @@
+// Function to query the sales ledger per wallet, with the fee breakdown of each sale
+// (platform commission, creator royalty and seller proceeds)
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { isValidClassicAddress } from "npm:xrpl@4.4.0";
+import { SalesRepository } from "../_shared/sales/index.ts";
+import type { SaleRole } from "../_shared/sales/index.ts";
+import type { ListSalesRequest, ListSalesResponse, SaleData } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const ROLES: SaleRole[] = ["seller", "buyer", "royalty"];
+
+console.log("list-sales: starting function");
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    let filters: ListSalesRequest = {};
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      filters = {
+        wallet: url.searchParams.get("wallet") || undefined,
+        role: (url.searchParams.get("role") || undefined) as SaleRole | undefined,
+        nft_token_id: url.searchParams.get("nft_token_id") || undefined,
+        limit: url.searchParams.get("limit") ? parseInt(url.searchParams.get("limit")!) : 50,
+        offset: url.searchParams.get("offset") ? parseInt(url.searchParams.get("offset")!) : 0,
+      };
+    } else {
+      const body = (await req.json()) as ListSalesRequest;
+      filters = {
+        ...body,
+        limit: body.limit || 50,
+        offset: body.offset || 0,
+      };
+    }
+
+    // The wallet ends up in a PostgREST filter, so only plain addresses are accepted
+    if (filters.wallet && !isValidClassicAddress(filters.wallet)) {
+      return new Response(JSON.stringify({ error: "wallet must be a classic XRPL address" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (filters.role && (!filters.wallet || !ROLES.includes(filters.role))) {
+      return new Response(JSON.stringify({ error: `role requires wallet and must be one of: ${ROLES.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate limit
+    if (filters.limit! > 100) {
+      filters.limit = 100; // Cap at 100 to prevent excessive queries
+    }
+
+    const repository = new SalesRepository();
+    const result = await repository.findMany(filters);
+
+    const mappedSales: SaleData[] = result.sales.map(sale => ({
+      id: sale.id!,
+      nft_token_id: sale.nft_token_id,
+      tx_hash: sale.tx_hash,
+      sale_type: sale.sale_type,
+      sell_offer_id: sale.sell_offer_id,
+      buy_offer_id: sale.buy_offer_id,
+      seller_address: sale.seller_address,
+      buyer_address: sale.buyer_address,
+      currency: sale.currency,
+      issuer: sale.issuer,
+      gross_amount: sale.gross_amount,
+      platform_fee: sale.platform_fee,
+      royalty_fee: sale.royalty_fee,
+      royalty_address: sale.royalty_address,
+      transfer_fee: sale.transfer_fee,
+      seller_proceeds: sale.seller_proceeds,
+      sold_at: sale.sold_at!,
+    }));
+
+    const response: ListSalesResponse = {
+      success: true,
+      sales: mappedSales,
+      total_count: result.count,
+      limit: filters.limit!,
+      offset: filters.offset!,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (err) {
+    console.error("list-sales error:", err);
+
+    const errorResponse: ListSalesResponse = {
+      success: false,
+      sales: [],
+      total_count: 0,
+      limit: 0,
+      offset: 0,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
+
+/* To invoke locally:
+
+1. Every sale a wallet took part in (as seller, buyer or royalty recipient):
+   curl 'http://127.0.0.1:54321/functions/v1/list-sales?wallet=rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN'
+
+2. Royalties earned by a creator:
+   curl 'http://127.0.0.1:54321/functions/v1/list-sales?wallet=rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN&role=royalty'
+
+3. Sales history of a token:
+   curl 'http://127.0.0.1:54321/functions/v1/list-sales?nft_token_id=00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D'
+
+Response format:
+{
+  "success": true,
+  "sales": [
+    {
+      "id": "uuid",
+      "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+      "tx_hash": "A1B2C3D4E5F6...",
+      "sale_type": "brokered",
+      "seller_address": "rSeller...",
+      "buyer_address": "rBuyer...",
+      "currency": "XRP",
+      "gross_amount": "100000000",
+      "platform_fee": "2500000",
+      "royalty_fee": "4875000",
+      "royalty_address": "rCreator...",
+      "transfer_fee": 5000,
+      "seller_proceeds": "92625000",
+      "sold_at": "2024-01-01T12:00:00.000Z"
+    }
+  ],
+  "total_count": 1,
+  "limit": 50,
+  "offset": 0
+}
+
+Filter Parameters:
+- wallet: classic address matched against seller, buyer or royalty recipient
+- role: seller | buyer | royalty, narrows the wallet match (requires wallet)
+- nft_token_id: Sales of one token
+- limit: Number of results to return (max 100, default 50)
+- offset: Number of results to skip for pagination (default 0)
+
+Notes:
+- Rows are written by settle-offers (brokered, platform_fee = MARKETPLACE_COMMISSION_BPS of the
+  buy amount) and when a buy-now / accept-bid accept is confirmed (direct, no platform fee)
+- royalty_fee is the token's TransferFee applied to gross_amount - platform_fee; the seller keeps
+  the rest. Amounts are drops for XRP, otherwise the IOU value
+
+*/
@@ -0,0 +1,38 @@
+import type { SaleRole } from "../_shared/sales/type.ts";
+
+export interface ListSalesRequest {
+  wallet?: string;
+  role?: SaleRole;
+  nft_token_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SaleData {
+  id: string;
+  nft_token_id: string;
+  tx_hash: string;
+  sale_type: 'brokered' | 'direct';
+  sell_offer_id?: string;
+  buy_offer_id?: string;
+  seller_address: string;
+  buyer_address: string;
+  currency: string;
+  issuer?: string;
+  gross_amount: string;
+  platform_fee: string;
+  royalty_fee: string;
+  royalty_address?: string;
+  transfer_fee: number;
+  seller_proceeds: string;
+  sold_at: string;
+}
+
+export interface ListSalesResponse {
+  success: boolean;
+  sales: SaleData[];
+  total_count: number;
+  limit: number;
+  offset: number;
+  error?: string;
+}
@@ -3,6 +3,7 @@
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import type { VerificationStatus } from "../_shared/attestation/index.ts";
 import type { ListSellRequest, ListSellResponse, SellOfferData } from "./type.ts";
 
 const corsHeaders = {
@@ -33,7 +34,9 @@ Deno.serve(async (req) => {
       filters = {
         user_address: url.searchParams.get("user_address") || undefined,
         nft_token_id: url.searchParams.get("nft_token_id") || undefined,
-        status: (url.searchParams.get("status") as 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed') || undefined,
+        status: (url.searchParams.get("status") as 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled') || undefined,
+        include_expired: url.searchParams.get("include_expired") === "true",
+        verification_status: (url.searchParams.get("verification_status") as VerificationStatus) || undefined,
         limit: url.searchParams.get("limit") ? parseInt(url.searchParams.get("limit")!) : 50,
         offset: url.searchParams.get("offset") ? parseInt(url.searchParams.get("offset")!) : 0,
       };
@@ -53,8 +56,9 @@ Deno.serve(async (req) => {
 
     const offerService = new NFTOfferService();
 
-    // Get sell offers using the service
-    const result = await offerService.listSellOffers(filters);
+    // Get sell offers using the service; listings past their ledger Expiration are hidden by default
+    const { include_expired, ...offerFilters } = filters;
+    const result = await offerService.listSellOffers({ ...offerFilters, exclude_expired: !include_expired });
 
     // Map the results to the response format
     const mappedOffers: SellOfferData[] = result.offers.map(offer => ({
@@ -63,10 +67,14 @@ Deno.serve(async (req) => {
       offer_type: 'sell' as const,
       user_address: offer.user_address,
       amount: offer.amount,
+      currency: offer.currency ?? 'XRP',
+      issuer: offer.issuer,
       owner_address: offer.owner_address,
       status: offer.status,
       payload_id: offer.payload_id,
       tx_hash: offer.tx_hash,
+      offer_index: offer.offer_index,
+      offer_expires_at: offer.offer_expires_at,
       created_at: offer.created_at!,
       updated_at: offer.updated_at!,
       signed_at: offer.signed_at,
@@ -75,6 +83,7 @@ Deno.serve(async (req) => {
       deep_link: offer.deep_link,
       qr_code: offer.qr_code,
       pushed: offer.pushed,
+      verification_status: offer.verification_status ?? 'unverified',
     }));
 
     const response: ListSellResponse = {
@@ -122,6 +131,9 @@ Deno.serve(async (req) => {
 4. Get marketplace listings (pending sell offers):
    curl 'http://127.0.0.1:54321/functions/v1/list-sell?status=pending'
 
+   Only listings of verified assets:
+   curl 'http://127.0.0.1:54321/functions/v1/list-sell?status=pending&verification_status=verified'
+
 5. Get completed sell offers:
    curl 'http://127.0.0.1:54321/functions/v1/list-sell?status=completed'
 
@@ -148,13 +160,16 @@ Response format:
       "offer_type": "sell",
       "user_address": "rw2evNG3ZiMxHV1RVip5bMEC3fk4vjkrRN",
       "amount": "1000000",
+      "currency": "XRP",
       "status": "completed",
       "payload_id": "abc-123-def",
       "tx_hash": "A1B2C3D4E5F6...",
+      "offer_index": "9C92E061381C1EF37A8CDE0E8FC35188BFC30B1883825042A64309AC09F4C36D",
       "created_at": "2024-01-01T12:00:00.000Z",
       "updated_at": "2024-01-01T12:05:00.000Z",
       "signed_at": "2024-01-01T12:04:30.000Z",
-      "completed_at": "2024-01-01T12:05:00.000Z"
+      "completed_at": "2024-01-01T12:05:00.000Z",
+      "verification_status": "verified"
     }
   ],
   "total_count": 1,
@@ -165,12 +180,16 @@ Response format:
 Filter Parameters:
 - user_address: Filter by the user who created the sell offer
 - nft_token_id: Filter by specific NFT token
-- status: Filter by offer status (pending, signed, rejected, expired, completed, failed)
+- status: Filter by offer status (pending, signed, rejected, expired, completed, failed, cancelled)
+- include_expired: Also return listings whose on-ledger offer_expires_at has passed (default false)
+- verification_status: Token verification status (unverified, verified, rejected); tokens
+  outside the catalogue count as unverified
 - limit: Number of results to return (max 100, default 50)
 - offset: Number of results to skip for pagination (default 0)
 
 Use Cases:
 - Show marketplace listings: status=pending (active sell offers available for purchase)
+- Hide unverified assets: verification_status=verified
 - Show user's sell history: filter by user_address
 - Show all sell offers for an NFT: filter by nft_token_id
 - Show completed sales: filter by status=completed
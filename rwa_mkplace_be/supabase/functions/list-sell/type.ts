@@ -1,7 +1,13 @@
+import type { VerificationStatus } from "../_shared/attestation/index.ts";
+
 export interface ListSellRequest {
   user_address?: string;
   nft_token_id?: string;
-  status?: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+  status?: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled';
+  // Also return listings whose on-ledger Expiration has passed (default false)
+  include_expired?: boolean;
+  // Token verification status; "verified" leaves unverified and rejected assets out
+  verification_status?: VerificationStatus;
   limit?: number;
   offset?: number;
 }
@@ -11,11 +17,15 @@ export interface SellOfferData {
   nft_token_id: string;
   offer_type: 'sell';
   user_address: string;
-  amount: string;
+  amount: string; // drops, or the IOU value when currency is not XRP
+  currency: string; // 'XRP' or an IOU currency code
+  issuer?: string; // IOU issuer
   owner_address?: string;
-  status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed';
+  status: 'pending' | 'signed' | 'rejected' | 'expired' | 'completed' | 'failed' | 'cancelled';
   payload_id: string;
   tx_hash?: string;
+  offer_index?: string; // on-ledger NFTokenOffer index, once the offer is validated
+  offer_expires_at?: string; // on-ledger Expiration, unset when the offer never expires
   created_at: string;
   updated_at: string;
   signed_at?: string;
@@ -24,6 +34,7 @@ export interface SellOfferData {
   deep_link?: string;
   qr_code?: string;
   pushed?: boolean;
+  verification_status: VerificationStatus;
 }
 
 export interface ListSellResponse {
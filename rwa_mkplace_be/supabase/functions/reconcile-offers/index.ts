@@ -0,0 +1,148 @@
+// Reconciliation between nft_offers and the live ledger: compares every unsettled
+// sell/buy row with nft_sell_offers / nft_buy_offers for its token, fixes rows
+// whose offer was accepted, cancelled, burned or expired, and reports offers
+// the database does not account for. pg_cron invokes it every 15 minutes (migration
+// 20240920000019_schedule_functions.sql); callers must send the service role key
+// or CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferReconciliationService } from "../_shared/nftOffer/index.ts";
+import type { ReconciliationReport } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import type { ReconcileOffersRequest, ReconcileOffersResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("reconcile-offers: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as ReconcileOffersRequest;
+
+  const sp = createServiceProvider();
+
+  try {
+    const nftService = await sp.getNftService();
+    const backendWallet = sp.getBackendWallet();
+
+    // Without Clio, rows whose ledger offer disappeared are reported but not fixed
+    const clioClient = await sp.getClioClient().catch((err) => {
+      console.warn("Clio unavailable, deleted offers will be reported as missing:", err);
+      return null;
+    });
+
+    const reconciliationService = new NFTOfferReconciliationService(
+      nftService,
+      clioClient,
+      backendWallet.address,
+      !body.dry_run,
+    );
+
+    let report: ReconciliationReport;
+    if (body.nft_token_id) {
+      const result = await reconciliationService.reconcileToken(body.nft_token_id);
+      report = { tokens_checked: 1, ...result, failed: [] };
+    } else {
+      report = await reconciliationService.reconcileAll();
+    }
+
+    const fixed = report.discrepancies.filter((d) => d.fixed).length;
+    const response: ReconcileOffersResponse = {
+      success: true,
+      report,
+      message: `${report.discrepancies.length} discrepancy(ies), ${fixed} fixed${body.dry_run ? " (dry run)" : ""}`,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("reconcile-offers error:", err);
+
+    const errorResponse: ReconcileOffersResponse = {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+}));
+
+/* To invoke locally:
+
+1. Reconcile every token with open offers:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/reconcile-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+2. Report drift for a single token without changing any row:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/reconcile-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D", "dry_run": true}'
+
+Response format:
+{
+  "success": true,
+  "report": {
+    "tokens_checked": 4,
+    "offers_checked": 9,
+    "discrepancies": [
+      {
+        "kind": "cancelled",
+        "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+        "offer_id": "550e8400-e29b-41d4-a716-446655440000",
+        "offer_index": "9C1B2F0A...",
+        "status": "completed",
+        "tx_hash": "A1B2C3D4E5F6...",
+        "fixed": true
+      },
+      {
+        "kind": "untracked",
+        "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+        "offer_index": "4E7D21B3...",
+        "fixed": false,
+        "detail": "Unknown buy offer from rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH"
+      }
+    ],
+    "failed": []
+  },
+  "message": "2 discrepancy(ies), 1 fixed"
+}
+
+Discrepancy kinds:
+- consumed: the offer was accepted; the row gets settlement_tx_hash
+- cancelled: the offer was cancelled on-ledger; the row is marked cancelled
+- burned: the token was burned; the row is marked failed
+- expired: the offer is past its Expiration; the row is marked expired
+- unconfirmed: a pending/signed row whose offer is already live; the row is marked completed
+- missing: a completed row's offer is gone and Clio has no deleting transaction (report only)
+- untracked: a live offer with no open row (report only)
+
+Every fix goes through the offer status transitions and is logged in nft_offer_events
+with source "cron" and actor "reconcile-offers".
+
+*/
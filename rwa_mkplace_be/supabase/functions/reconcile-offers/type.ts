@@ -0,0 +1,15 @@
+import type { ReconciliationReport } from "../_shared/nftOffer/index.ts";
+
+export interface ReconcileOffersRequest {
+    // When omitted, every token with unsettled sell/buy rows is checked
+    nft_token_id?: string;
+    // Report drift without updating nft_offers (default false)
+    dry_run?: boolean;
+}
+
+export interface ReconcileOffersResponse {
+    success: boolean;
+    report?: ReconciliationReport;
+    message?: string;
+    error?: string;
+}
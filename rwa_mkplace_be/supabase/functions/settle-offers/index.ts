@@ -0,0 +1,126 @@
+// Broker-mode settlement: matches live sell and buy offers for the same NFT
+// and accepts both with a single NFTokenAcceptOffer signed by the backend wallet.
+// Runs on a schedule; check-offer-status and xumm-webhook also settle a token as soon
+// as one of its offers is validated. Callers must send the service role key or
+// CRON_SECRET (see withCronAuth).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferSettlementService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withCronAuth } from "../_shared/middleware/cron.ts";
+import type { SettleOffersRequest, SettleOffersResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("settle-offers: starting function");
+
+Deno.serve(withCronAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as SettleOffersRequest;
+
+  const sp = createServiceProvider();
+
+  try {
+    const nftService = await sp.getNftService();
+    const backendWallet = sp.getBackendWallet();
+    const settlementService = new NFTOfferSettlementService(nftService, backendWallet.address, await sp.getTrustLineService());
+
+    let response: SettleOffersResponse;
+    if (body.nft_token_id) {
+      const result = await settlementService.settleToken(body.nft_token_id);
+      response = {
+        success: true,
+        settled: result ? [result] : [],
+        message: result ? "Offers settled" : "No matching sell and buy offers for this token",
+      };
+    } else {
+      const { settled, failed } = await settlementService.settleAll();
+      response = {
+        success: true,
+        settled,
+        failed,
+        message: `Settled ${settled.length} token(s), ${failed.length} failure(s)`,
+      };
+    }
+
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("settle-offers error:", err);
+
+    const errorResponse: SettleOffersResponse = {
+      success: false,
+      settled: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+}));
+
+/* To invoke locally:
+
+1. Settle a single token:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/settle-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+     -H 'Content-Type: application/json' \
+     -d '{"nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D"}'
+
+2. Settle every token with matching offers:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/settle-offers' \
+     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+
+Response format:
+{
+  "success": true,
+  "settled": [
+    {
+      "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+      "sell_offer_id": "550e8400-e29b-41d4-a716-446655440000",
+      "buy_offer_id": "6fa459ea-ee8a-3ca4-894e-db77e160355e",
+      "broker_fee": "50000",
+      "currency": "XRP",
+      "tx_hash": "A1B2C3D4E5F6..."
+    }
+  ],
+  "failed": [],
+  "message": "Settled 1 token(s), 0 failure(s)"
+}
+
+Matching rules:
+- Both offers must still exist on-ledger and name the backend wallet as Destination
+- The buyer cannot be the seller, and the bid must target the current seller
+- The cheapest sell offer is paired with the highest bid that covers it
+- Both offers must be priced in the same asset (XRP, or the same IOU currency and issuer)
+- MARKETPLACE_COMMISSION_BPS of the buy amount is kept as NFTokenBrokerFee; the bid must cover
+  the ask plus that fee, and any remaining spread goes to the seller
+- An IOU fee is paid into the backend wallet's trust line for that currency and issuer. Set up
+  those trust lines for every IOU the marketplace trades; without one the pair settles with no fee
+- Each settlement is recorded in the sales table with its platform fee, royalty and seller proceeds
+- Both rows are marked completed with settlement_tx_hash and matched_offer_id
+
+*/
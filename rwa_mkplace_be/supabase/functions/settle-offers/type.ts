@@ -0,0 +1,22 @@
+export interface SettleOffersRequest {
+    // When omitted, every token with both an unsettled sell and buy offer is processed
+    nft_token_id?: string;
+}
+
+export interface SettledOffer {
+    nft_token_id: string;
+    sell_offer_id: string;
+    buy_offer_id: string;
+    broker_fee: string; // kept by the broker wallet, in drops or the IOU value
+    currency: string; // 'XRP' or the IOU currency both offers are priced in
+    issuer?: string;
+    tx_hash: string;
+}
+
+export interface SettleOffersResponse {
+    success: boolean;
+    settled: SettledOffer[];
+    failed?: { nft_token_id: string; error: string }[];
+    message?: string;
+    error?: string;
+}
@@ -0,0 +1,212 @@
+// Trustlines: checks whether the authenticated wallet trusts an issued currency
+// and, when it does not (or its limit is below the listing price), returns a
+// signable TrustSet payload. Lets an IOU-priced listing be bought in one flow:
+// trustlines -> TrustSet -> buy-now.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import { validateIssuedCurrency, validateIssuedValue } from "../_shared/utils/amount.ts";
+import config from "../_shared/config/index.ts";
+import type { TrustLinesRequest, TrustLinesResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+console.log("trustlines: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: TrustLinesResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const body = (await req.json()) as TrustLinesRequest;
+  const { offer_id, limit } = body;
+  const { sub: wallet_address, push_token } = ctx.user;
+
+  if (!offer_id && (!body.currency || !body.issuer)) {
+    return jsonResponse({ success: false, error: "Provide offer_id, or currency and issuer" }, 400);
+  }
+
+  if (limit !== undefined) {
+    const limitError = validateIssuedValue(limit, "limit");
+    if (limitError) return jsonResponse({ success: false, error: limitError }, 400);
+  }
+
+  const sp = createServiceProvider();
+
+  try {
+    let currency = body.currency;
+    let issuer = body.issuer;
+    // Listing price the wallet must be able to hold, when checking for a listing
+    let amount: string | undefined;
+
+    if (offer_id) {
+      const listing = await new NFTOfferService().getOfferById(offer_id);
+      if (!listing || listing.offer_type !== "sell") {
+        return jsonResponse({ success: false, error: "Sell offer not found" }, 404);
+      }
+      if (!listing.issuer || !listing.currency) {
+        return jsonResponse({
+          success: true,
+          trusted: true,
+          amount: listing.amount,
+          currency: listing.currency,
+          message: "Listing is priced in XRP; no trust line is needed.",
+        });
+      }
+      currency = listing.currency;
+      issuer = listing.issuer;
+      amount = listing.amount;
+    }
+
+    const currencyError = validateIssuedCurrency(currency, issuer, "");
+    if (currencyError) return jsonResponse({ success: false, error: currencyError }, 400);
+
+    const result = { currency: currency!, issuer: issuer!, amount };
+
+    // The issuer holds its own currency without a trust line
+    if (wallet_address === issuer) {
+      return jsonResponse({ success: true, trusted: true, trust_line: null, ...result, message: "Wallet is the issuer." });
+    }
+
+    const trustLineService = await sp.getTrustLineService();
+    const line = await trustLineService.getTrustLine(wallet_address, result.currency, result.issuer);
+
+    if (line?.frozen) {
+      return jsonResponse({
+        success: false,
+        trust_line: line,
+        ...result,
+        error: `Trust line for ${result.currency} issued by ${result.issuer} is frozen`,
+      }, 409);
+    }
+
+    const sufficient_balance = line && amount !== undefined ? Number(line.balance) >= Number(amount) : undefined;
+
+    if (line && (amount === undefined || Number(line.limit) >= Number(amount))) {
+      return jsonResponse({
+        success: true,
+        trusted: true,
+        trust_line: line,
+        sufficient_balance,
+        ...result,
+        message: sufficient_balance === false
+          ? `Trust line is set, but the wallet holds ${line.balance} ${result.currency} and the listing costs ${amount}.`
+          : "Trust line is set.",
+      });
+    }
+
+    // Trust at least the listing price, so the wallet can hold what it pays with
+    let trustLimit = limit ?? config.DEFAULT_TRUST_LIMIT;
+    if (amount !== undefined && Number(trustLimit) < Number(amount)) {
+      if (limit !== undefined) {
+        return jsonResponse({ success: false, ...result, error: `limit must be at least the listing price ${amount}` }, 400);
+      }
+      trustLimit = amount;
+    }
+
+    const xummService = sp.getXummService();
+    const payload = await xummService.createTrustSetPayload(
+      wallet_address,
+      { currency: result.currency, issuer: result.issuer, limit: trustLimit },
+      push_token,
+    );
+    if (!payload) throw new Error("Failed to create XUMM payload");
+    const enriched = xummService.enrichPayload(payload);
+
+    return jsonResponse({
+      success: true,
+      trusted: false,
+      trust_line: line,
+      sufficient_balance,
+      ...result,
+      limit: trustLimit,
+      payload_id: enriched.uuid,
+      deep_link: enriched.deepLink,
+      qr_code: payload.refs?.qr_png || `https://xumm.app/sign/${enriched.uuid}/qr`,
+      pushed: payload.pushed,
+      message: payload.pushed
+        ? `TrustSet request sent to your XUMM wallet. Please sign to trust ${result.currency}.`
+        : `Scan the QR code with XUMM to sign and trust ${result.currency}.`,
+    });
+  } catch (err) {
+    console.error("trustlines error:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request for a listing:
+
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/trustlines' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --header 'Content-Type: application/json' \
+ --data '{
+"offer_id": "550e8400-e29b-41d4-a716-446655440000"
+}'
+
+  or for a currency:
+
+ --data '{
+"currency": "USD",
+"issuer": "rvYAfWj5gh67oV6fW32ZzP3Aw4Eubs59B",
+"limit": "5000"
+}'
+
+Response format:
+{
+  "success": true,
+  "trusted": false,
+  "trust_line": null,
+  "currency": "USD",
+  "issuer": "rvYAfWj5gh67oV6fW32ZzP3Aw4Eubs59B",
+  "amount": "25",
+  "limit": "1000000",
+  "payload_id": "...",
+  "deep_link": "...",
+  "qr_code": "...",
+  "pushed": true,
+  "message": "TrustSet request sent to your XUMM wallet. Please sign to trust USD."
+}
+
+Notes:
+- The wallet is taken from the JWT subject; trust lines are read with account_lines on the validated ledger
+- With offer_id the listing's currency/issuer are used; XRP listings return trusted: true
+- A line counts as trusted when it exists and its limit covers the listing price
+- The TrustSet sets tfSetNoRipple; limit defaults to DEFAULT_TRUST_LIMIT, raised to the listing price if lower
+- Frozen trust lines return 409 since a new TrustSet cannot lift an issuer freeze
+- A trusted line can still lack funds: check sufficient_balance before calling buy-now
+
+*/
@@ -0,0 +1,36 @@
+import type { TrustLine } from "../_shared/trustline/type.ts";
+
+export type TrustLinesRequest = {
+    // id of a sell row in nft_offers; currency, issuer and amount are taken from it
+    offer_id?: string;
+    // currency and issuer to check when no offer_id is given
+    currency?: string;
+    issuer?: string;
+    // LimitAmount value for the TrustSet payload; defaults to DEFAULT_TRUST_LIMIT
+    // (raised to the listing price when that is higher)
+    limit?: string;
+};
+
+export type TrustLinesResponse = {
+    success: boolean;
+    // true when the wallet can already hold the currency (and the listing price)
+    trusted?: boolean;
+    trust_line?: TrustLine | null;
+    // whether the current balance covers the listing price (offer_id only)
+    sufficient_balance?: boolean;
+    currency?: string;
+    issuer?: string;
+    amount?: string;
+    // TrustSet payload details, present when trusted is false
+    limit?: string;
+    payload_id?: string;
+    deep_link?: string;
+    qr_code?: string;
+    pushed?: boolean;
+    // human readable message or error
+    message?: string;
+    error?: string;
+};
+
+// Helper type for the handler function contract
+export type TrustLinesHandler = (input: TrustLinesRequest) => Promise<TrustLinesResponse>;
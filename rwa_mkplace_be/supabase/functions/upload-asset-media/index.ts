@@ -0,0 +1,122 @@
+// Upload pipeline for asset images and documents used by the CreateAsset page.
+// Files are checked by their leading bytes and size, stored under their SHA-256
+// and returned as a stable URL that create-nft references as image_url.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { ACCEPTED_MEDIA_TYPES, detectMediaType, MediaService } from "../_shared/media/index.ts";
+import { withAuth } from "../_shared/middleware/auth.ts";
+import type { JwtPayload } from "../_shared/auth/type.ts";
+import config from "../_shared/config/index.ts";
+import type { UploadAssetMediaResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Room for the multipart boundaries and field headers around the file
+const MULTIPART_OVERHEAD = 16 * 1024;
+
+console.log("upload-asset-media: starting function");
+
+const handler = async (req: Request, ctx: { user: JwtPayload }) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: UploadAssetMediaResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const maxMb = Math.round(config.MEDIA_MAX_BYTES / (1024 * 1024));
+
+  // Reject oversized bodies before reading them
+  const contentLength = Number(req.headers.get("content-length") ?? "0");
+  if (contentLength > config.MEDIA_MAX_BYTES + MULTIPART_OVERHEAD) {
+    return jsonResponse({ success: false, error: `File is larger than ${maxMb} MB` }, 413);
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await req.formData()).get("file");
+  } catch (_err) {
+    return jsonResponse({ success: false, error: "Send the file as multipart/form-data in a 'file' field" }, 400);
+  }
+
+  if (!(file instanceof File)) {
+    return jsonResponse({ success: false, error: "Missing 'file' field" }, 400);
+  }
+
+  if (file.size === 0) {
+    return jsonResponse({ success: false, error: "File is empty" }, 400);
+  }
+
+  if (file.size > config.MEDIA_MAX_BYTES) {
+    return jsonResponse({ success: false, error: `File is larger than ${maxMb} MB` }, 413);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  // The declared type is ignored; the bytes must be one of the accepted formats
+  const contentType = detectMediaType(bytes);
+  if (!contentType) {
+    return jsonResponse({
+      success: false,
+      error: `Unsupported file type; accepted: ${ACCEPTED_MEDIA_TYPES.join(", ")}`,
+    }, 415);
+  }
+
+  try {
+    const result = await new MediaService().upload({
+      bytes,
+      content_type: contentType,
+      original_name: file.name || undefined,
+      uploaded_by: ctx.user.sub,
+    });
+
+    return jsonResponse({ success: true, ...result });
+  } catch (err) {
+    console.error("upload-asset-media error:", err);
+    return jsonResponse({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+};
+
+Deno.serve(withAuth(handler));
+
+/* To invoke locally:
+
+curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/upload-asset-media' \
+ --header 'Authorization: Bearer <jwt from xumm-signin>' \
+ --form 'file=@./villa.jpg'
+
+Response format:
+{
+  "success": true,
+  "hash": "9f2c5d0e7b4a1c3e8f6d2b0a4c7e9f1d3b5a7c9e1f3d5b7a9c1e3f5d7b9a1c3e",
+  "url": "http://127.0.0.1:54321/storage/v1/object/public/asset-media/9f2c5d0e....jpg",
+  "thumbnail_url": "http://127.0.0.1:54321/storage/v1/render/image/public/asset-media/9f2c5d0e....jpg?width=400&height=400&resize=cover",
+  "content_type": "image/jpeg",
+  "size": 482113,
+  "existing": false
+}
+
+Notes:
+- Accepted: PNG, JPEG, GIF, WebP and PDF, detected from the file's leading bytes (415 otherwise),
+  up to MEDIA_MAX_BYTES (10 MB by default, 413 above it)
+- Files are stored in the MEDIA_BUCKET bucket as <sha256>.<ext> and recorded in asset_media with
+  the uploading wallet; the same file uploaded again returns the existing URL (existing: true)
+- url never changes what it serves, so it is safe to mint into token metadata via create-nft image_url
+- thumbnail_url is rendered by Storage image transformations, which must be enabled for the
+  project; PDFs get no thumbnail
+
+*/
@@ -0,0 +1,18 @@
+import type { MediaContentType } from "../_shared/media/type.ts";
+
+// Request is multipart/form-data with the file in a `file` field
+
+export interface UploadAssetMediaResponse {
+  success: boolean;
+  // SHA-256 of the file; also its object name in the bucket
+  hash?: string;
+  // Stable public URL to pass to create-nft as image_url
+  url?: string;
+  // 400x400 resized copy, for images only
+  thumbnail_url?: string;
+  content_type?: MediaContentType;
+  size?: number;
+  // true when the same file had already been uploaded
+  existing?: boolean;
+  error?: string;
+}
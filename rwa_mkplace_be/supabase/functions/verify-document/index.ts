@@ -0,0 +1,171 @@
+// Verifies a legal document against the digests a token committed to at mint.
+// The token URI is read from the ledger, the metadata document it references is
+// loaded (and re-hashed) from the store, and the file's SHA-256 is looked up in
+// its documents list.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  decodeUri,
+  isMetadataHash,
+  metadataDocuments,
+  MetadataService,
+  parseMetadataUri,
+  sha256Hex,
+} from "../_shared/metadata/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import config from "../_shared/config/index.ts";
+import type { VerifyDocumentResponse } from "./type.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Room for the multipart boundaries and the nft_token_id/sha256 fields around the file
+const MULTIPART_OVERHEAD = 16 * 1024;
+
+console.log("verify-document: starting function");
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const jsonResponse = (body: VerifyDocumentResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  // Reject oversized bodies before reading them
+  const contentLength = Number(req.headers.get("content-length") ?? "0");
+  if (contentLength > config.MEDIA_MAX_BYTES + MULTIPART_OVERHEAD) {
+    return jsonResponse({ success: false, error: "File is larger than MEDIA_MAX_BYTES; send its sha256 instead" }, 413);
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch (_err) {
+    return jsonResponse({ success: false, error: "Send nft_token_id and the file as multipart/form-data" }, 400);
+  }
+
+  const nftTokenId = form.get("nft_token_id");
+  if (typeof nftTokenId !== "string" || !/^[0-9A-Fa-f]{64}$/.test(nftTokenId)) {
+    return jsonResponse({ success: false, error: "nft_token_id must be a 64-character hex NFTokenID" }, 400);
+  }
+
+  const file = form.get("file");
+  const digest = form.get("sha256");
+  let sha256: string;
+  if (file instanceof File) {
+    if (file.size > config.MEDIA_MAX_BYTES) {
+      return jsonResponse({ success: false, error: "File is larger than MEDIA_MAX_BYTES; send its sha256 instead" }, 413);
+    }
+    sha256 = await sha256Hex(new Uint8Array(await file.arrayBuffer()));
+  } else if (typeof digest === "string" && isMetadataHash(digest.toLowerCase())) {
+    sha256 = digest.toLowerCase();
+  } else {
+    return jsonResponse({ success: false, error: "Provide the document as 'file' or its hex SHA-256 as 'sha256'" }, 400);
+  }
+
+  const sp = createServiceProvider();
+
+  try {
+    // The URI on the ledger is the commitment; the catalogue row is not trusted for it
+    const clioClient = await sp.getClioClient();
+    const nftInfo = await clioClient.request({
+      command: "nft_info",
+      nft_id: nftTokenId.toUpperCase(),
+    });
+    const metadataUri = nftInfo.result.uri ? decodeUri(nftInfo.result.uri) : "";
+    const metadataHash = parseMetadataUri(metadataUri);
+    if (!metadataHash) {
+      return jsonResponse({
+        success: false,
+        nft_token_id: nftTokenId,
+        metadata_uri: metadataUri || undefined,
+        error: "Token URI does not reference the metadata store, so it has no anchored documents",
+      }, 422);
+    }
+
+    // Throws when the stored metadata no longer hashes to the URI's hash
+    const stored = await new MetadataService().get(metadataHash);
+    if (!stored) {
+      return jsonResponse({ success: false, error: "Token metadata not found in the store" }, 404);
+    }
+
+    const committed = metadataDocuments(stored.metadata);
+    const match = committed.find((d) => d.sha256 === sha256);
+
+    return jsonResponse({
+      success: true,
+      nft_token_id: nftTokenId,
+      sha256,
+      matches: !!match,
+      document: match,
+      committed_documents: committed.length,
+      metadata_uri: metadataUri,
+      metadata_hash: metadataHash,
+    });
+  } catch (err) {
+    console.error("verify-document error:", err);
+    return jsonResponse({ success: false, error: err instanceof Error ? err.message : String(err) }, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
+  }
+});
+
+/* To invoke locally:
+
+1. Upload the document itself:
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/verify-document' \
+     -F 'nft_token_id=00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D' \
+     -F 'file=@./title-deed.pdf'
+
+2. Or send a digest computed locally (sha256sum title-deed.pdf):
+   curl -X POST 'http://127.0.0.1:54321/functions/v1/verify-document' \
+     -F 'nft_token_id=00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D' \
+     -F 'sha256=4e1c7a0f2b9d8e6c5a3f1b0d9e8c7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b'
+
+Response format:
+{
+  "success": true,
+  "nft_token_id": "00080000F455ACD558EAD4E631A70EAAA11B5DA346A29711CB04C62800A19F8D",
+  "sha256": "4e1c7a0f2b9d8e6c5a3f1b0d9e8c7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b",
+  "matches": true,
+  "document": {
+    "type": "title_deed",
+    "name": "Title deed - Lot 17",
+    "sha256": "4e1c7a0f2b9d8e6c5a3f1b0d9e8c7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b",
+    "url": "http://127.0.0.1:54321/storage/v1/object/public/asset-media/4e1c7a0f....pdf",
+    "content_type": "application/pdf",
+    "size": 182340
+  },
+  "committed_documents": 2,
+  "metadata_uri": "hash://sha256/3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776",
+  "metadata_hash": "3f4c0e5b1d0b9a6c3e1f2d4b5a6978877665544332211ffeeddccbbaa9988776"
+}
+
+Notes:
+- matches: false (with success: true) means the file differs from every document the token
+  committed to, e.g. an altered or different version of the deed
+- The chain of trust: token URI on-ledger -> metadata hash -> metadata JSON (re-hashed on read)
+  -> documents[].sha256 -> the submitted file's SHA-256
+- Tokens whose URI is not a metadata store reference (minted elsewhere, or before documents
+  were supported) return 422
+- Public: anyone holding a copy of a document can check it
+
+*/
@@ -0,0 +1,21 @@
+import type { MetadataDocument } from "../_shared/metadata/documents.ts";
+
+// Request is multipart/form-data with `nft_token_id` and either the document
+// in a `file` field or its hex SHA-256 in a `sha256` field
+
+export interface VerifyDocumentResponse {
+  success: boolean;
+  nft_token_id?: string;
+  // SHA-256 of the submitted document
+  sha256?: string;
+  // true when the token's metadata committed to this exact document at mint time
+  matches?: boolean;
+  // The committed entry that matched
+  document?: MetadataDocument;
+  // Number of documents the token committed to
+  committed_documents?: number;
+  // Token URI read from the ledger and the metadata hash it references
+  metadata_uri?: string;
+  metadata_hash?: string;
+  error?: string;
+}
@@ -17,7 +17,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import XummService from "../_shared/xumm/index.ts";
 import config from "../_shared/config/index.ts";
-import { AuthService } from "../_shared/auth/service.ts";
+import { AuthService, roleFor } from "../_shared/auth/service.ts";
 import type { SignInResponse, SignInStatusResponse } from "./type.ts";
 
 const corsHeaders = {
@@ -90,6 +90,7 @@ Deno.serve(async (req) => {
           const jwt = await auth.createSessionJwt(status.wallet_address, undefined, status.user_token);
           console.log("JWT generated successfully:", jwt ? "Yes" : "No");
           response.jwt = jwt;
+          response.role = roleFor(status.wallet_address);
         } catch (err) {
           console.error("Failed to generate JWT:", err);
           // Add the error to the response so we can debug it
@@ -1,3 +1,5 @@
+import type { UserRole } from "../_shared/auth/type.ts";
+
 export type SignInResponse = {
     success: boolean;
     payload_id: string;
@@ -22,6 +24,8 @@ export type SignInStatusResponse = {
     expired?: boolean;
     cancelled?: boolean;
     jwt?: string;
+    // Role carried by the session JWT, e.g. "verifier"
+    role?: UserRole;
     error?: string;
     hex?: string;
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+// Sign webhook-payload.json the way XUMM would and send it to the local function.
+// Serve the functions with XUMM_API_SECRET=<TEST_SECRET> for the signature to verify.
+//
+// Usage: deno run --allow-read --allow-net supabase/functions/xumm-webhook/fixtures/sign.ts [--print] [url]
+
+import { signWebhookPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from "../../_shared/xumm/webhook.ts";
+
+export const TEST_SECRET = "00000000-0000-4000-8000-000000000000";
+
+const printOnly = Deno.args.includes("--print");
+const url = Deno.args.find((arg) => arg.startsWith("http")) ??
+  "http://127.0.0.1:54321/functions/v1/xumm-webhook";
+
+// XUMM signs the compact JSON body, so send exactly the bytes that were signed
+const fixture = await Deno.readTextFile(new URL("./webhook-payload.json", import.meta.url));
+const body = JSON.stringify(JSON.parse(fixture));
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const signature = await signWebhookPayload(body, timestamp, TEST_SECRET);
+
+if (printOnly) {
+  console.log(`curl -X POST '${url}' \\
+  -H 'Content-Type: application/json' \\
+  -H '${SIGNATURE_HEADER}: ${signature}' \\
+  -H '${TIMESTAMP_HEADER}: ${timestamp}' \\
+  -d '${body}'`);
+} else {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [SIGNATURE_HEADER]: signature,
+      [TIMESTAMP_HEADER]: timestamp,
+    },
+    body,
+  });
+  console.log(res.status, await res.text());
+}
@@ -1,8 +1,13 @@
 // XUMM Webhook endpoint to handle transaction status updates
-// This endpoint receives notifications when users sign, reject, or when transactions expire
+// This endpoint receives notifications when users sign, reject, or when transactions expire.
+// Calls must carry a valid X-Xumm-Request-Signature; each call is processed once.
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { NFTOfferService } from "../_shared/nftOffer/index.ts";
+import { NFTOfferService, NFTOfferSettlementService } from "../_shared/nftOffer/index.ts";
+import { createServiceProvider } from "../_shared/serviceProvider.ts";
+import { verifyWebhookSignature, SIGNATURE_HEADER } from "../_shared/xumm/webhook.ts";
+import { WebhookDeliveryRepository } from "../_shared/xumm/webhookDeliveries.ts";
+import config from "../_shared/config/index.ts";
 import type { XummWebhookPayload, WebhookResponse } from "./type.ts";
 
 const corsHeaders = {
@@ -25,9 +30,36 @@ Deno.serve(async (req) => {
     });
   }
 
+  const jsonResponse = (body: WebhookResponse, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (!config.XUMM_API_SECRET) {
+    return jsonResponse({ success: false, message: "XUMM_API_SECRET is not configured" }, 500);
+  }
+
+  // The signature covers the exact bytes XUMM sent, so verify before parsing
+  const rawBody = await req.text();
+  const verification = await verifyWebhookSignature(
+    rawBody,
+    req.headers,
+    config.XUMM_API_SECRET,
+    config.XUMM_WEBHOOK_TOLERANCE,
+  );
+  if (!verification.valid) {
+    console.warn(`xumm-webhook: rejected call - ${verification.reason}`);
+    return jsonResponse({ success: false, message: verification.reason }, 401);
+  }
+
+  const sp = createServiceProvider();
+  const deliveries = new WebhookDeliveryRepository();
+  let claimedCall: string | undefined;
+
   try {
     // Parse the webhook payload from XUMM
-    const payload = (await req.json()) as XummWebhookPayload;
+    const payload = JSON.parse(rawBody) as XummWebhookPayload;
 
     console.log('Received XUMM webhook:', JSON.stringify(payload, null, 2));
 
@@ -36,13 +68,39 @@ Deno.serve(async (req) => {
       throw new Error("Missing payload UUID in webhook");
     }
 
-    const offerService = new NFTOfferService();
+    // A retried or replayed call carries the same call UUID (or, failing that, the same signature)
+    const callUuid = payload.payloadResponse?.reference_call_uuidv4 ?? req.headers.get(SIGNATURE_HEADER)!;
+    if (!await deliveries.claim(callUuid, payloadId)) {
+      console.log(`xumm-webhook: ignoring duplicate call ${callUuid}`);
+      return jsonResponse({ success: true, message: "Duplicate delivery ignored" });
+    }
+    claimedCall = callUuid;
+
+    // EscrowCreate payloads belong to the escrows table
+    const escrowService = await sp.getEscrowService();
+    const updatedEscrow = await escrowService.processWebhookUpdate(payload);
+    if (updatedEscrow) {
+      console.log(`Updated escrow ${updatedEscrow.id} to status: ${updatedEscrow.status}`);
+      return jsonResponse({
+        success: true,
+        message: `Escrow status updated to ${updatedEscrow.status}`,
+        escrow_id: updatedEscrow.id
+      });
+    }
+
+    // Signed payloads are verified on-ledger before the offer is completed
+    const nftService = await sp.getNftService();
+    const offerService = new NFTOfferService(nftService);
 
     // Process the webhook update using the service
     const updatedOffer = await offerService.processWebhookUpdate(payload);
 
     console.log(`Updated offer ${updatedOffer.id} to status: ${updatedOffer.status}`);
 
+    // A newly validated sell or buy offer may complete a brokered pair
+    const settlementService = new NFTOfferSettlementService(nftService, sp.getBackendWallet().address, await sp.getTrustLineService());
+    await settlementService.settleAfterCompletion(updatedOffer);
+
     // Respond to XUMM webhook
     const response: WebhookResponse = {
       success: true,
@@ -50,22 +108,32 @@ Deno.serve(async (req) => {
       offer_id: updatedOffer.id
     };
 
-    return new Response(JSON.stringify(response), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonResponse(response);
 
   } catch (err) {
     console.error("xumm-webhook error:", err);
 
+    // Let XUMM's retry of this call be processed again
+    if (claimedCall) {
+      try {
+        await deliveries.release(claimedCall);
+      } catch (_err) {
+        console.warn("Error releasing webhook delivery:", _err);
+      }
+    }
+
     const errorResponse: WebhookResponse = {
       success: false,
       message: err instanceof Error ? err.message : String(err),
     };
 
-    return new Response(JSON.stringify(errorResponse), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonResponse(errorResponse, 500);
+  } finally {
+    try {
+      await sp.disconnectAll();
+    } catch (_err) {
+      console.warn("Error disconnecting service provider instance:", _err);
+    }
   }
 });
 
@@ -76,44 +144,51 @@ Deno.serve(async (req) => {
    - Local development: Use ngrok or similar to expose local endpoint
      Example: https://abc123.ngrok.io/functions/v1/xumm-webhook
 
-2. When creating XUMM payloads in your application, make sure to include webhook configuration:
-   
+2. Set WEBHOOK_URL to the same URL. XUMM payloads cannot carry their own webhook URL,
+   so XummService only checks (via ping) that the console setting matches WEBHOOK_URL
+   and logs a warning otherwise. Every payload XummService builds sets
+   options.return_url from RETURN_URL_WEB / RETURN_URL_APP so the user lands back on
+   the page of the flow they started (see RETURN_PATHS in _shared/config):
+
    const payload = {
      txjson: yourTransaction,
      options: {
-       webhook_url: 'https://your-project.supabase.co/functions/v1/xumm-webhook'
+       submit: true,
+       expire: 600,
+       return_url: {
+         web: 'https://your-frontend.example/my-assets?payload={id}',
+         app: 'yourapp://my-assets?payload={id}'
+       }
      }
    };
 
-3. Test the webhook locally:
-   
-   curl -X POST 'http://127.0.0.1:54321/functions/v1/xumm-webhook' \
-     -H 'Content-Type: application/json' \
-     -d '{
-       "meta": {
-         "exists": true,
-         "uuid": "test-payload-id-123",
-         "signed": true,
-         "cancelled": false,
-         "expired": false
-       },
-       "payloadResponse": {
-         "txid": "ABC123DEF456",
-         "resolved_at": "2024-01-01T12:00:00.000Z",
-         "account": "rTestAccount123",
-         "dispatched_nodetype": "MAINNET",
-         "dispatched_to": "wss://xrplcluster.com/",
-         "environment_nodeuri": "wss://xrplcluster.com/",
-         "environment_networkendpoint": "wss://xrplcluster.com/"
-       }
-     }'
+3. Test the webhook locally with the signed fixture:
+
+   Serve the functions with XUMM_API_SECRET set to the fixture's test secret
+   (see fixtures/sign.ts), then let the script sign the fixture with the current
+   timestamp and send it:
+
+   deno run --allow-read --allow-net supabase/functions/xumm-webhook/fixtures/sign.ts
+
+   Pass --print to only print the curl command. Sending the same call twice
+   returns "Duplicate delivery ignored"; changing the body or the secret returns 401.
+
+Security:
+- X-Xumm-Request-Signature must be the HMAC-SHA1 of X-Xumm-Request-Timestamp + raw body,
+  keyed with XUMM_API_SECRET (dashes removed); otherwise 401
+- Timestamps older (or further ahead) than XUMM_WEBHOOK_TOLERANCE seconds (default 300) get 401
+- Each call is recorded in webhook_deliveries by payloadResponse.reference_call_uuidv4;
+  repeats are acknowledged without touching the offer
 
 Status Flow:
 - pending: Initial state when offer is created
-- signed: User signed the transaction in XUMM
-- completed: Transaction was successfully submitted to XRPL
+- signed: User signed the transaction in XUMM, awaiting a validated ledger result
+- completed: Transaction validated on XRPL with tesSUCCESS
 - rejected: User cancelled/rejected the transaction
 - expired: 10-minute timeout reached without user action
-- failed: Transaction signed but failed for some reason
+- failed: Transaction signed but failed on-ledger (engine result, e.g. tecNO_PERMISSION, in error_message)
+
+Payloads created by escrow-create update the escrows row instead (pending -> created once the
+EscrowCreate is validated, or rejected/expired/failed) and return escrow_id.
 
 */
\ No newline at end of file
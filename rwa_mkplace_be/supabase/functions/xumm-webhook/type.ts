@@ -21,6 +21,8 @@ export interface XummWebhookPayload {
         instruction: string | null;
     };
     payloadResponse: {
+        // Unique per webhook call; used to drop retries/replays
+        reference_call_uuidv4?: string;
         txid: string;
         resolved_at: string;
         dispatched_nodetype: string;
@@ -35,4 +37,5 @@ export interface WebhookResponse {
     success: boolean;
     message: string;
     offer_id?: string;
+    escrow_id?: string;
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Track broker-mode settlement of matched sell/buy offers
+ALTER TABLE nft_offers
+    ADD COLUMN settlement_tx_hash TEXT, -- NFTokenAcceptOffer hash submitted by the backend (broker) wallet
+    ADD COLUMN settled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN matched_offer_id UUID REFERENCES nft_offers(id); -- Counter offer this row was brokered against
+
+-- Speeds up lookups of unsettled offers for a token
+CREATE INDEX idx_nft_offers_unsettled ON nft_offers(nft_token_id, offer_type)
+    WHERE settlement_tx_hash IS NULL;
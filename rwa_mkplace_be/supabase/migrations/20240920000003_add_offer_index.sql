@@ -0,0 +1,5 @@
+-- Persist the on-ledger NFTokenOffer index so offers can later be accepted or cancelled
+ALTER TABLE nft_offers
+    ADD COLUMN offer_index TEXT; -- LedgerIndex of the NFTokenOffer, filled once the create tx is validated
+
+CREATE INDEX idx_nft_offers_offer_index ON nft_offers(offer_index);
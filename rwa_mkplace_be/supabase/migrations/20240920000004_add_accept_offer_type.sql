@@ -0,0 +1,7 @@
+-- Allow rows that track a user accepting someone else's offer (buy-now / accept-bid).
+-- An 'accept' row links to the accepted offer through matched_offer_id.
+ALTER TABLE nft_offers DROP CONSTRAINT nft_offers_offer_type_check;
+ALTER TABLE nft_offers ADD CONSTRAINT nft_offers_offer_type_check
+    CHECK (offer_type IN ('sell', 'buy', 'accept'));
+
+CREATE INDEX idx_nft_offers_matched_offer_id ON nft_offers(matched_offer_id);
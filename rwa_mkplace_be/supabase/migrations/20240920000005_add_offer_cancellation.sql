@@ -0,0 +1,18 @@
+-- Support withdrawing offers with NFTokenCancelOffer.
+-- A 'cancel' row tracks the XUMM payload the owner signs; the offers it targets
+-- point at it through cancel_request_id and move to 'cancelled' once the ledger
+-- confirms their NFTokenOffer entries were deleted.
+ALTER TABLE nft_offers DROP CONSTRAINT nft_offers_offer_type_check;
+ALTER TABLE nft_offers ADD CONSTRAINT nft_offers_offer_type_check
+    CHECK (offer_type IN ('sell', 'buy', 'accept', 'cancel'));
+
+ALTER TABLE nft_offers DROP CONSTRAINT nft_offers_status_check;
+ALTER TABLE nft_offers ADD CONSTRAINT nft_offers_status_check
+    CHECK (status IN ('pending', 'signed', 'rejected', 'expired', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE nft_offers
+    ADD COLUMN cancel_request_id UUID REFERENCES nft_offers(id),
+    ADD COLUMN cancel_tx_hash TEXT, -- NFTokenCancelOffer hash that removed the offer
+    ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_nft_offers_cancel_request_id ON nft_offers(cancel_request_id);
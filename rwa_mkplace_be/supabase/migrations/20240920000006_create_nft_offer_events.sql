@@ -0,0 +1,37 @@
+-- Audit log of nft_offers status transitions.
+-- Every move allowed by the transition table in _shared/nftOffer/stateMachine.ts
+-- is recorded with where it came from, who caused it and the raw input behind it.
+CREATE TABLE nft_offer_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    offer_id UUID NOT NULL REFERENCES nft_offers(id),
+    from_status TEXT, -- NULL for the creation event
+    to_status TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('webhook', 'poll', 'cron', 'admin', 'api')),
+    actor TEXT, -- Wallet address or job that triggered the transition
+    payload JSONB, -- Webhook body, XUMM status or ledger result the decision was based on
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_nft_offer_events_offer_id ON nft_offer_events(offer_id, created_at);
+
+ALTER TABLE nft_offer_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can do everything" ON nft_offer_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Record the transitions made by the expiry function as well
+CREATE OR REPLACE FUNCTION expire_old_offers()
+RETURNS void AS $$
+BEGIN
+    WITH expired AS (
+        UPDATE nft_offers
+        SET status = 'expired', updated_at = NOW()
+        WHERE status = 'pending'
+        AND payload_expires_at < NOW()
+        RETURNING id
+    )
+    INSERT INTO nft_offer_events (offer_id, from_status, to_status, source, actor)
+    SELECT id, 'pending', 'expired', 'cron', 'expire_old_offers'
+    FROM expired;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,16 @@
+-- XUMM webhook calls that passed signature verification.
+-- call_uuid is unique so a replayed or retried call is only processed once;
+-- a call that fails processing is removed again so XUMM's retry can succeed.
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    call_uuid TEXT UNIQUE NOT NULL, -- payloadResponse.reference_call_uuidv4, or the signature when absent
+    payload_id TEXT NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_payload_id ON webhook_deliveries(payload_id);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can do everything" ON webhook_deliveries
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,42 @@
+-- Catalogue of tokens minted through create-nft
+CREATE TABLE nfts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    nft_token_id TEXT UNIQUE NOT NULL,
+    issuer TEXT NOT NULL, -- Minting account
+    owner_address TEXT NOT NULL, -- Current holder, the issuer until the transfer is accepted
+    creator_address TEXT, -- Account the token was minted for
+    taxon BIGINT NOT NULL DEFAULT 0,
+    flags INTEGER NOT NULL DEFAULT 0,
+    transfer_fee INTEGER NOT NULL DEFAULT 0, -- In 1/100000 units (0 - 50000)
+
+    -- Decoded token URI metadata; name/image/category are copied out for filtering
+    name TEXT,
+    image_url TEXT,
+    category TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    mint_tx_hash TEXT NOT NULL,
+    network TEXT NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_nfts_owner_address ON nfts(owner_address);
+CREATE INDEX idx_nfts_creator_address ON nfts(creator_address);
+CREATE INDEX idx_nfts_category ON nfts(category);
+CREATE INDEX idx_nfts_created_at ON nfts(created_at);
+
+CREATE TRIGGER update_nfts_updated_at
+    BEFORE UPDATE ON nfts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE nfts ENABLE ROW LEVEL SECURITY;
+
+-- The catalogue is public
+CREATE POLICY "Anyone can view NFTs" ON nfts
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can do everything" ON nfts
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,16 @@
+-- Last ledger each background worker has fully processed, so the ledger
+-- indexer can resume (and backfill the gap) after downtime.
+CREATE TABLE ledger_cursors (
+    name TEXT PRIMARY KEY, -- Worker name, e.g. 'nft-indexer'
+    ledger_index BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ledger_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can do everything" ON ledger_cursors
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Tokens burned on-ledger stay in the catalogue but are hidden from listings
+ALTER TABLE nfts ADD COLUMN burned_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE nfts ADD COLUMN burn_tx_hash TEXT;
@@ -0,0 +1,47 @@
+-- expire_old_offers() now also expires rows that were signed in XUMM but never
+-- submitted (no tx_hash) once signed_grace has passed, and returns how many
+-- rows of each kind it expired so the expire-offers function can report them.
+-- The return type changes, so the old function is dropped first.
+DROP FUNCTION IF EXISTS expire_old_offers();
+
+CREATE FUNCTION expire_old_offers(signed_grace INTERVAL DEFAULT INTERVAL '30 minutes')
+RETURNS TABLE (pending_expired INTEGER, signed_expired INTEGER) AS $$
+DECLARE
+    pending_count INTEGER;
+    signed_count INTEGER;
+BEGIN
+    WITH expired AS (
+        UPDATE nft_offers
+        SET status = 'expired', updated_at = NOW()
+        WHERE status = 'pending'
+        AND payload_expires_at < NOW()
+        RETURNING id
+    ), logged AS (
+        INSERT INTO nft_offer_events (offer_id, from_status, to_status, source, actor)
+        SELECT id, 'pending', 'expired', 'cron', 'expire_old_offers'
+        FROM expired
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO pending_count FROM logged;
+
+    WITH expired AS (
+        UPDATE nft_offers
+        SET status = 'expired',
+            error_message = 'Signed but never submitted',
+            updated_at = NOW()
+        WHERE status = 'signed'
+        AND tx_hash IS NULL
+        AND COALESCE(signed_at, updated_at) < NOW() - signed_grace
+        RETURNING id
+    ), logged AS (
+        INSERT INTO nft_offer_events (offer_id, from_status, to_status, source, actor, payload)
+        SELECT id, 'signed', 'expired', 'cron', 'expire_old_offers',
+               jsonb_build_object('signed_grace', signed_grace::TEXT)
+        FROM expired
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO signed_count FROM logged;
+
+    RETURN QUERY SELECT pending_count, signed_count;
+END;
+$$ LANGUAGE plpgsql;
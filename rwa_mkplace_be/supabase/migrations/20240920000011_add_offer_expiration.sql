@@ -0,0 +1,5 @@
+-- On-ledger Expiration of the NFTokenOffer a sell/buy row creates.
+-- NULL means the offer never expires; listings past this time are hidden.
+ALTER TABLE nft_offers ADD COLUMN offer_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_nft_offers_offer_expires_at ON nft_offers(offer_expires_at);
@@ -0,0 +1,8 @@
+-- Offers can be priced in an issued currency (IOU) as well as XRP.
+-- For XRP rows amount is in drops; for IOU rows amount is the decimal value
+-- of `currency` issued by `issuer`.
+ALTER TABLE nft_offers ADD COLUMN currency TEXT NOT NULL DEFAULT 'XRP';
+ALTER TABLE nft_offers ADD COLUMN issuer TEXT;
+
+ALTER TABLE nft_offers ADD CONSTRAINT nft_offers_currency_issuer_check
+    CHECK ((currency = 'XRP') = (issuer IS NULL));
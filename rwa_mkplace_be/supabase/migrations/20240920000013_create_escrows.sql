@@ -0,0 +1,58 @@
+-- XRP escrows that lock a buyer's payment while the seller delivers an NFT.
+-- The buyer signs EscrowCreate (Destination = seller) through XUMM; the backend
+-- wallet submits EscrowFinish once the token is in the buyer's account, or
+-- EscrowCancel once CancelAfter has passed without delivery.
+CREATE TABLE escrows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    nft_token_id TEXT NOT NULL,
+    buyer_address TEXT NOT NULL, -- Escrow owner (EscrowCreate Account)
+    seller_address TEXT NOT NULL, -- Escrow Destination
+    amount TEXT NOT NULL, -- Amount in drops (XRP)
+
+    -- PREIMAGE-SHA-256 crypto-condition (hex); NULL for time-based escrows.
+    -- The fulfillment is the secret that releases the funds and never leaves the backend.
+    condition TEXT,
+    fulfillment TEXT,
+    finish_after TIMESTAMP WITH TIME ZONE,
+    cancel_after TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- XUMM payload for the buyer's EscrowCreate
+    payload_id TEXT UNIQUE NOT NULL,
+    payload_expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '10 minutes'),
+    deep_link TEXT,
+    qr_code TEXT,
+    pushed BOOLEAN DEFAULT FALSE,
+
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'rejected', 'expired', 'created', 'finished', 'cancelled', 'failed')),
+    create_tx_hash TEXT,
+    offer_sequence BIGINT, -- Sequence of the EscrowCreate, used as OfferSequence to finish/cancel
+    finish_tx_hash TEXT,
+    cancel_tx_hash TEXT,
+    created_on_ledger_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    error_message TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (condition IS NOT NULL OR finish_after IS NOT NULL),
+    CHECK (finish_after IS NULL OR finish_after < cancel_after)
+);
+
+CREATE INDEX idx_escrows_nft_token_id ON escrows(nft_token_id);
+CREATE INDEX idx_escrows_buyer_address ON escrows(buyer_address);
+CREATE INDEX idx_escrows_seller_address ON escrows(seller_address);
+CREATE INDEX idx_escrows_status ON escrows(status);
+
+CREATE TRIGGER update_escrows_updated_at
+    BEFORE UPDATE ON escrows
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Rows hold fulfillments, so only the service role can read them
+ALTER TABLE escrows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can do everything" ON escrows
+    FOR ALL USING (auth.role() = 'service_role');
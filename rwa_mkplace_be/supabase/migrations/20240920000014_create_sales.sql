@@ -0,0 +1,42 @@
+-- One row per completed sale with its fee breakdown, so sellers, buyers,
+-- royalty recipients and the platform can see what each sale paid out.
+-- Amounts are drops when currency is 'XRP', otherwise the IOU value.
+CREATE TABLE sales (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    nft_token_id TEXT NOT NULL,
+    tx_hash TEXT UNIQUE NOT NULL, -- NFTokenAcceptOffer that moved the token
+    sale_type TEXT NOT NULL CHECK (sale_type IN ('brokered', 'direct')),
+    sell_offer_id UUID REFERENCES nft_offers(id),
+    buy_offer_id UUID REFERENCES nft_offers(id),
+    seller_address TEXT NOT NULL,
+    buyer_address TEXT NOT NULL,
+
+    currency TEXT NOT NULL DEFAULT 'XRP',
+    issuer TEXT,
+    gross_amount TEXT NOT NULL, -- Paid by the buyer
+    platform_fee TEXT NOT NULL DEFAULT '0', -- NFTokenBrokerFee kept by the backend wallet
+    royalty_fee TEXT NOT NULL DEFAULT '0', -- TransferFee paid to the token issuer
+    royalty_address TEXT, -- Creator the royalty is attributed to (the issuer when unknown)
+    transfer_fee INTEGER NOT NULL DEFAULT 0, -- Token TransferFee in 1/100000 units
+    seller_proceeds TEXT NOT NULL,
+
+    sold_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK ((currency = 'XRP') = (issuer IS NULL))
+);
+
+CREATE INDEX idx_sales_nft_token_id ON sales(nft_token_id);
+CREATE INDEX idx_sales_seller_address ON sales(seller_address);
+CREATE INDEX idx_sales_buyer_address ON sales(buyer_address);
+CREATE INDEX idx_sales_royalty_address ON sales(royalty_address);
+CREATE INDEX idx_sales_sold_at ON sales(sold_at);
+
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+
+-- Sales are public on-ledger anyway
+CREATE POLICY "Anyone can view sales" ON sales
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can do everything" ON sales
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,8 @@
+-- Named NFTokenMint flags, derived from the flags column for filtering
+ALTER TABLE nfts
+    ADD COLUMN burnable BOOLEAN GENERATED ALWAYS AS ((flags & 1) <> 0) STORED, -- tfBurnable: the issuer can burn it (redemption)
+    ADD COLUMN only_xrp BOOLEAN GENERATED ALWAYS AS ((flags & 2) <> 0) STORED, -- tfOnlyXRP: offers must be priced in XRP
+    ADD COLUMN transferable BOOLEAN GENERATED ALWAYS AS ((flags & 8) <> 0) STORED; -- tfTransferable: holders can trade it
+
+-- Collections are grouped by taxon
+CREATE INDEX idx_nfts_taxon ON nfts(taxon);
@@ -0,0 +1,22 @@
+-- Content-addressed token metadata. NFTokenMint URIs are limited to 256 bytes,
+-- so the JSON is stored here under its SHA-256 hash and the URI only references it.
+CREATE TABLE nft_metadata (
+    hash TEXT PRIMARY KEY CHECK (hash ~ '^[0-9a-f]{64}$'), -- Lowercase hex SHA-256 of content
+    content TEXT NOT NULL, -- Exact UTF-8 JSON that was hashed; TEXT keeps the bytes (JSONB would reorder keys)
+    size INTEGER NOT NULL, -- Byte length of content
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Where each catalogue token's metadata lives
+ALTER TABLE nfts
+    ADD COLUMN metadata_uri TEXT, -- URI written on-ledger (NULL for tokens minted with inline JSON)
+    ADD COLUMN metadata_hash TEXT REFERENCES nft_metadata(hash);
+
+ALTER TABLE nft_metadata ENABLE ROW LEVEL SECURITY;
+
+-- Metadata is public and immutable: rows are only ever inserted
+CREATE POLICY "Anyone can view NFT metadata" ON nft_metadata
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can do everything" ON nft_metadata
+    FOR ALL USING (auth.role() = 'service_role');
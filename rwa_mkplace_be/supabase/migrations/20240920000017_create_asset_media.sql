@@ -0,0 +1,33 @@
+-- Public bucket for asset images and documents uploaded through upload-asset-media.
+-- Objects are named after the SHA-256 of their bytes, so a URL always serves the same file.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'asset-media',
+    'asset-media',
+    true,
+    10485760, -- 10 MB, matches MEDIA_MAX_BYTES
+    ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- One row per stored file; the same file uploaded again reuses its row
+CREATE TABLE asset_media (
+    hash TEXT PRIMARY KEY CHECK (hash ~ '^[0-9a-f]{64}$'), -- Lowercase hex SHA-256 of the file
+    path TEXT NOT NULL, -- Object path in the asset-media bucket
+    content_type TEXT NOT NULL, -- Detected from the file's leading bytes
+    size INTEGER NOT NULL, -- Bytes
+    original_name TEXT,
+    uploaded_by TEXT NOT NULL, -- Wallet that first uploaded it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_asset_media_uploaded_by ON asset_media(uploaded_by);
+
+ALTER TABLE asset_media ENABLE ROW LEVEL SECURITY;
+
+-- Files are public through the bucket anyway
+CREATE POLICY "Anyone can view asset media" ON asset_media
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can do everything" ON asset_media
+    FOR ALL USING (auth.role() = 'service_role');
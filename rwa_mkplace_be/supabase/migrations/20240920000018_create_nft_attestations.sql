@@ -0,0 +1,46 @@
+-- Verifier attestations for catalogue tokens. A verifier (a wallet listed in
+-- VERIFIER_ADDRESSES) reviews the asset behind a token and signs its metadata
+-- hash with the wallet key; the latest attestation sets the token's status.
+CREATE TABLE nft_attestations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    nft_token_id TEXT NOT NULL REFERENCES nfts(nft_token_id),
+    metadata_hash TEXT NOT NULL REFERENCES nft_metadata(hash),
+    verifier_address TEXT NOT NULL,
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+    notes TEXT,
+    public_key TEXT NOT NULL, -- Key the verifier signed with; derives verifier_address
+    signature TEXT NOT NULL, -- Signature of metadata_hash, checkable with verify(metadata_hash, signature, public_key)
+    attested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_nft_attestations_nft_token_id ON nft_attestations(nft_token_id);
+CREATE INDEX idx_nft_attestations_verifier_address ON nft_attestations(verifier_address);
+
+ALTER TABLE nft_attestations ENABLE ROW LEVEL SECURITY;
+
+-- Attestations are public so anyone can re-check the signatures
+CREATE POLICY "Anyone can view attestations" ON nft_attestations
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can do everything" ON nft_attestations
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Status from the latest attestation; tokens start unverified
+ALTER TABLE nfts
+    ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'unverified'
+        CHECK (verification_status IN ('unverified', 'verified', 'rejected')),
+    ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN verified_by TEXT;
+
+CREATE INDEX idx_nfts_verification_status ON nfts(verification_status);
+
+-- Sell offers with the verification status of their token, so marketplace
+-- listings can leave out unverified assets. Offers for tokens outside the
+-- catalogue are unverified.
+CREATE VIEW nft_listings WITH (security_invoker = true) AS
+SELECT
+    o.*,
+    COALESCE(n.verification_status, 'unverified') AS verification_status
+FROM nft_offers o
+LEFT JOIN nfts n ON n.nft_token_id = o.nft_token_id
+WHERE o.offer_type = 'sell';
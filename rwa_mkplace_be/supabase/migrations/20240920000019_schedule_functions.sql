@@ -0,0 +1,35 @@
+-- Schedules the scheduled edge functions with pg_cron. Each job POSTs to
+-- /functions/v1/<name> through pg_net and authenticates with CRON_SECRET in the
+-- x-cron-secret header (see withCronAuth). The project URL and the secret are
+-- read from Vault, so store them once per project before the jobs can succeed:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<CRON_SECRET>', 'cron_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Queues the request and returns the pg_net request id; responses land in
+-- net._http_response. The timeout matches the edge function wall-clock limit.
+CREATE OR REPLACE FUNCTION invoke_scheduled_function(function_name TEXT)
+RETURNS BIGINT AS $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/' || function_name,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+        ),
+        body := '{}'::jsonb,
+        timeout_milliseconds := 150000
+    );
+$$ LANGUAGE sql;
+
+-- Only the cron jobs (run as postgres) call this; keep it off the REST API
+REVOKE EXECUTE ON FUNCTION invoke_scheduled_function(TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('expire-offers', '* * * * *', $$SELECT invoke_scheduled_function('expire-offers')$$);
+-- Only the backend holds the escrow fulfillment, so the seller is paid only when this runs
+SELECT cron.schedule('escrow-finish', '* * * * *', $$SELECT invoke_scheduled_function('escrow-finish')$$);
+SELECT cron.schedule('escrow-cancel', '*/15 * * * *', $$SELECT invoke_scheduled_function('escrow-cancel')$$);
+-- The indexer cursor only advances when index-ledger runs
+SELECT cron.schedule('index-ledger', '* * * * *', $$SELECT invoke_scheduled_function('index-ledger')$$);
+SELECT cron.schedule('reconcile-offers', '*/15 * * * *', $$SELECT invoke_scheduled_function('reconcile-offers')$$);
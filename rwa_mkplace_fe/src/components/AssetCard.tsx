@@ -1,3 +1,5 @@
+import { HiBadgeCheck } from 'react-icons/hi';
+
 interface AssetCardProps {
   id: string;
   name: string;
@@ -7,6 +9,8 @@ interface AssetCardProps {
   image: string;
   trending?: boolean;
   badge?: string;
+  // Token's latest verifier attestation approved the asset
+  verified?: boolean;
   onBuyClick?: () => void;
 }
 
@@ -17,6 +21,7 @@ export const AssetCard = ({
   minValuation,
   image,
   badge,
+  verified,
   onBuyClick,
 }: AssetCardProps) => {
   return (
@@ -28,6 +33,16 @@ export const AssetCard = ({
           alt={name}
           className="w-full h-full object-cover"
         />
+        {/* Verified Badge */}
+        {verified && (
+          <div className="absolute top-3 left-3">
+            <span className="badge bg-info/90 text-white backdrop-blur-sm border-0 font-medium px-3 py-1 gap-1">
+              <HiBadgeCheck className="w-4 h-4" />
+              Verified
+            </span>
+          </div>
+        )}
+
         {/* Badge */}
         {badge && (
           <div className="absolute top-3 right-3">
@@ -1,3 +1,5 @@
+import { HiBadgeCheck } from 'react-icons/hi';
+
 interface AssetTrendingCardProps {
   asset: {
     id: string;
@@ -6,6 +8,8 @@ interface AssetTrendingCardProps {
     price: number;
     badge?: string;
     change?: string;
+    // Token's latest verifier attestation approved the asset
+    verified?: boolean;
   };
   rank?: number;
   onAssetClick?: (assetId: string) => void;
@@ -37,6 +41,16 @@ export const AssetTrendingCard = ({ asset, rank, onAssetClick, onFavoriteClick }
             className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
           />
 
+          {/* Verified Badge */}
+          {asset.verified && (
+            <div className="absolute bottom-4 left-4">
+              <span className="badge bg-info/90 text-white border-0 font-medium px-3 py-1 gap-1">
+                <HiBadgeCheck className="w-4 h-4" />
+                Verified
+              </span>
+            </div>
+          )}
+
           {/* Status Badge */}
           {asset.badge && (
             <div className="absolute top-4 right-4">
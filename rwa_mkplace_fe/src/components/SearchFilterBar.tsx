@@ -7,6 +7,9 @@ interface SearchFilterBarProps {
   onPriceRangeChange: (min: number, max: number) => void;
   searchQuery: string;
   sortBy: string;
+  // Hide assets no verifier has approved
+  verifiedOnly?: boolean;
+  onVerifiedOnlyChange?: (verifiedOnly: boolean) => void;
 }
 
 export const SearchFilterBar = ({
@@ -15,6 +18,8 @@ export const SearchFilterBar = ({
   onPriceRangeChange,
   searchQuery,
   sortBy,
+  verifiedOnly = false,
+  onVerifiedOnlyChange,
 }: SearchFilterBarProps) => {
   const [showFilters, setShowFilters] = useState(false);
   const [priceRange, setPriceRange] = useState({ min: 0, max: 100000 });
@@ -145,6 +150,15 @@ export const SearchFilterBar = ({
                   <input type="checkbox" className="checkbox checkbox-primary checkbox-sm" />
                   <span className="label-text text-sm">New</span>
                 </label>
+                <label className="label cursor-pointer gap-2">
+                  <input
+                    type="checkbox"
+                    checked={verifiedOnly}
+                    onChange={(e) => onVerifiedOnlyChange?.(e.target.checked)}
+                    className="checkbox checkbox-primary checkbox-sm"
+                  />
+                  <span className="label-text text-sm">Verified only</span>
+                </label>
               </div>
             </div>
           </div>
@@ -158,6 +172,7 @@ export const SearchFilterBar = ({
               onClick={() => {
                 setPriceRange({ min: 0, max: 100000 });
                 onPriceRangeChange(0, 100000);
+                onVerifiedOnlyChange?.(false);
                 setShowFilters(false);
               }}
               className="btn btn-outline btn-sm"
@@ -1,5 +1,10 @@
 import { useState, useRef } from "react";
-import { createNft, type CreateNftResponse } from "../services/api-client";
+import {
+  createNft,
+  uploadAssetMedia,
+  type CreateNftResponse,
+  type DocumentType,
+} from "../services/api-client";
 import { useWalletStore } from "../store/walletStore";
 import { NftSuccessModal } from "../components/NftSuccessModal";
 
@@ -9,6 +14,38 @@ interface Property {
   value: string;
 }
 
+// Legal document uploaded for the asset; its hash is committed to in the NFT metadata
+interface AssetDocument {
+  id: string;
+  name: string;
+  type: DocumentType;
+  hash?: string;
+  isUploading: boolean;
+  error?: string;
+}
+
+const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
+  { value: "title_deed", label: "Title deed" },
+  { value: "certificate_of_authenticity", label: "Certificate of authenticity" },
+  { value: "custody_agreement", label: "Custody agreement" },
+  { value: "appraisal", label: "Appraisal" },
+  { value: "insurance", label: "Insurance" },
+  { value: "other", label: "Other" },
+];
+
+// Properties the backend requires per category, with an example value
+const REQUIRED_PROPERTIES: Record<string, { key: string; placeholder: string }[]> = {
+  Commodities: [
+    { key: "weight", placeholder: "e.g., 1000 g" },
+    { key: "purity", placeholder: "e.g., 99.99" },
+    { key: "vault_location", placeholder: "e.g., Zurich, CH" },
+  ],
+  Credit: [
+    { key: "maturity_date", placeholder: "e.g., 2030-12-31" },
+    { key: "yield", placeholder: "e.g., 5.25" },
+  ],
+};
+
 const CreateAsset = () => {
   const [formData, setFormData] = useState({
     name: "",
@@ -20,10 +57,15 @@ const CreateAsset = () => {
   });
 
   const [properties, setProperties] = useState<Property[]>([]);
+  const [documents, setDocuments] = useState<AssetDocument[]>([]);
   const [dragActive, setDragActive] = useState(false);
   const [nftResult, setNftResult] = useState<CreateNftResponse | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Local preview of the selected file while it uploads; image_url holds the uploaded URL
+  const [previewUrl, setPreviewUrl] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Get wallet state
@@ -37,6 +79,16 @@ const CreateAsset = () => {
       return;
     }
 
+    if (!formData.image_url) {
+      alert("Please upload an image of your asset");
+      return;
+    }
+
+    if (documents.some((doc) => doc.isUploading)) {
+      alert("Please wait for the documents to finish uploading");
+      return;
+    }
+
     setIsLoading(true);
 
     // Build metadata object (only metadata fields, not auth fields)
@@ -57,15 +109,15 @@ const CreateAsset = () => {
     try {
       console.log("Creating NFT with:", {
         name: formData.name,
-        image_url: formData.image_url || "https://via.placeholder.com/400x400?text=No+Image",
+        image_url: formData.image_url,
         metadata
       });
 
-      const result = await createNft(
-        formData.name,
-        formData.image_url || "https://via.placeholder.com/400x400?text=No+Image",
-        metadata
-      );
+      const attachments = documents
+        .filter((doc) => doc.hash)
+        .map((doc) => ({ hash: doc.hash!, type: doc.type, name: doc.name }));
+
+      const result = await createNft(formData.name, formData.image_url, metadata, attachments);
 
       console.log("NFT Creation Result:", result);
 
@@ -77,7 +129,9 @@ const CreateAsset = () => {
       }
     } catch (error) {
       console.error("Error creating NFT:", error);
-      alert("Error creating NFT: " + (error instanceof Error ? error.message : "Unknown error"));
+      // Metadata validation errors list the missing and invalid fields in the message
+      const message = (error as { message?: string } | null)?.message;
+      alert("Error creating NFT: " + (message || "Unknown error"));
     } finally {
       setIsLoading(false);
     }
@@ -90,8 +144,24 @@ const CreateAsset = () => {
       ...formData,
       [e.target.name]: e.target.value,
     });
+
+    // Add rows for the properties the chosen category requires
+    if (e.target.name === "category") {
+      const missing = (REQUIRED_PROPERTIES[e.target.value] ?? []).filter(
+        (required) => !properties.some((prop) => prop.key === required.key)
+      );
+      if (missing.length > 0) {
+        setProperties([
+          ...properties,
+          ...missing.map((required, i) => ({ id: `${Date.now()}-${i}`, key: required.key, value: "" })),
+        ]);
+      }
+    }
   };
 
+  const requiredProperty = (key: string) =>
+    (REQUIRED_PROPERTIES[formData.category] ?? []).find((required) => required.key === key);
+
   const addProperty = () => {
     setProperties([...properties, { id: Date.now().toString(), key: "", value: "" }]);
   };
@@ -104,6 +174,38 @@ const CreateAsset = () => {
     setProperties(properties.filter((prop) => prop.id !== id));
   };
 
+  const updateDocument = (id: string, changes: Partial<AssetDocument>) => {
+    setDocuments((prev) => prev.map((doc) => (doc.id === id ? { ...doc, ...changes } : doc)));
+  };
+
+  const removeDocument = (id: string) => {
+    setDocuments((prev) => prev.filter((doc) => doc.id !== id));
+  };
+
+  const handleDocumentInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const id = Date.now().toString();
+    setDocuments((prev) => [...prev, { id, name: file.name, type: "other", isUploading: true }]);
+
+    try {
+      const result = await uploadAssetMedia(file);
+      if (result.success && result.hash) {
+        updateDocument(id, { hash: result.hash, isUploading: false });
+      } else {
+        updateDocument(id, { isUploading: false, error: result.error || "Upload failed" });
+      }
+    } catch (error) {
+      console.error("Error uploading document:", error);
+      updateDocument(id, {
+        isUploading: false,
+        error: error instanceof Error ? error.message : "Upload failed",
+      });
+    }
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -130,13 +232,36 @@ const CreateAsset = () => {
     }
   };
 
-  const handleFile = (file: File) => {
-    // TODO: Upload file to storage service
-    // For now, create a local URL for preview
-    const url = URL.createObjectURL(file);
-    setFormData((prev) => ({ ...prev, image_url: url }));
+  const handleFile = async (file: File) => {
+    if (!isConnected) {
+      alert("Please connect your wallet first");
+      return;
+    }
+
+    // Show the file right away; the form only uses the uploaded URL
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(URL.createObjectURL(file));
+    setFormData((prev) => ({ ...prev, image_url: "" }));
+    setUploadError("");
+    setIsUploading(true);
+
+    try {
+      const result = await uploadAssetMedia(file);
+      if (result.success && result.url) {
+        setFormData((prev) => ({ ...prev, image_url: result.url! }));
+      } else {
+        setUploadError(result.error || "Upload failed");
+      }
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
   };
 
+  const imageSrc = formData.image_url || previewUrl;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-base-100 to-base-200">
       <div className="container mx-auto px-2 sm:px-4 py-4 sm:py-8 max-w-7xl">
@@ -195,9 +320,9 @@ const CreateAsset = () => {
 
               <div className="card bg-base-100 shadow-2xl border border-base-300 overflow-hidden">
                 <figure className="relative">
-                  {formData.image_url ? (
+                  {imageSrc ? (
                     <img
-                      src={formData.image_url}
+                      src={imageSrc}
                       alt={formData.name || "Asset preview"}
                       className="w-full h-64 object-cover"
                     />
@@ -328,17 +453,28 @@ const CreateAsset = () => {
                         onDrop={handleDrop}
                         onClick={() => fileInputRef.current?.click()}
                       >
-                        {formData.image_url ? (
+                        {imageSrc ? (
                           <div className="space-y-4">
                             <img
-                              src={formData.image_url}
+                              src={imageSrc}
                               alt="Preview"
                               className="w-32 h-32 object-cover rounded-lg mx-auto"
                             />
                             <div>
-                              <p className="text-sm font-medium text-success">
-                                Image uploaded successfully!
-                              </p>
+                              {isUploading ? (
+                                <p className="text-sm font-medium text-base-content/70">
+                                  <span className="loading loading-spinner loading-xs mr-2"></span>
+                                  Uploading image...
+                                </p>
+                              ) : uploadError ? (
+                                <p className="text-sm font-medium text-error">
+                                  Upload failed: {uploadError}
+                                </p>
+                              ) : (
+                                <p className="text-sm font-medium text-success">
+                                  Image uploaded successfully!
+                                </p>
+                              )}
                               <p className="text-xs text-base-content/50 mt-1">
                                 Click to change image
                               </p>
@@ -369,7 +505,7 @@ const CreateAsset = () => {
                                 Drag and drop or click to browse
                               </p>
                               <p className="text-xs text-base-content/40 mt-2">
-                                PNG, JPG, GIF up to 10MB
+                                PNG, JPG, GIF, WebP up to 10MB
                               </p>
                             </div>
                           </div>
@@ -378,7 +514,7 @@ const CreateAsset = () => {
                           ref={fileInputRef}
                           type="file"
                           className="hidden"
-                          accept="image/*"
+                          accept="image/png,image/jpeg,image/gif,image/webp"
                           onChange={handleFileInput}
                         />
                       </div>
@@ -430,6 +566,8 @@ const CreateAsset = () => {
                         >
                           <option value="">Select category</option>
                           <option value="Collectibles">🏆 Collectibles</option>
+                          <option value="Commodities">🪙 Commodities</option>
+                          <option value="Credit">💳 Credit</option>
                           <option value="Art">🎨 Art</option>
                           <option value="Vehicles">🚗 Vehicles</option>
                           <option value="Luxury Goods">💎 Luxury Goods</option>
@@ -485,6 +623,12 @@ const CreateAsset = () => {
                       <p className="text-sm text-base-content/60">
                         Add custom attributes to describe your asset
                       </p>
+                      {REQUIRED_PROPERTIES[formData.category] && (
+                        <p className="text-sm text-base-content/60 mt-1">
+                          {formData.category} assets require:{" "}
+                          {REQUIRED_PROPERTIES[formData.category].map((required) => required.key).join(", ")}
+                        </p>
+                      )}
                     </div>
 
                     <div className="space-y-4">
@@ -503,9 +647,10 @@ const CreateAsset = () => {
                           <div className="flex gap-2">
                             <input
                               type="text"
-                              placeholder="Value (e.g., Rolex)"
+                              placeholder={requiredProperty(property.key)?.placeholder ?? "Value (e.g., Rolex)"}
                               value={property.value}
                               onChange={(e) => updateProperty(property.id, "value", e.target.value)}
+                              required={!!requiredProperty(property.key)}
                               className="input input-bordered flex-1"
                             />
                             <button
@@ -554,6 +699,95 @@ const CreateAsset = () => {
                     </div>
                   </div>
 
+                  {/* Documents Section */}
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-lg font-semibold text-base-content mb-2">Legal Documents</h3>
+                      <p className="text-sm text-base-content/60">
+                        Attach title deeds, certificates or custody agreements. Their SHA-256
+                        fingerprints are recorded in the NFT metadata so anyone can verify a copy later.
+                      </p>
+                    </div>
+
+                    <div className="space-y-4">
+                      {documents.map((doc) => (
+                        <div
+                          key={doc.id}
+                          className="grid grid-cols-1 md:grid-cols-2 gap-3 p-4 bg-base-200 rounded-lg"
+                        >
+                          <div className="flex flex-col justify-center min-w-0">
+                            <span className="font-medium truncate">{doc.name}</span>
+                            <span
+                              className={`text-xs ${doc.error ? "text-error" : "text-base-content/60"} truncate`}
+                            >
+                              {doc.isUploading
+                                ? "Uploading..."
+                                : doc.error
+                                  ? doc.error
+                                  : `SHA-256 ${doc.hash!.slice(0, 16)}...`}
+                            </span>
+                          </div>
+                          <div className="flex gap-2">
+                            <select
+                              value={doc.type}
+                              onChange={(e) => updateDocument(doc.id, { type: e.target.value as DocumentType })}
+                              className="select select-bordered flex-1"
+                            >
+                              {DOCUMENT_TYPES.map((type) => (
+                                <option key={type.value} value={type.value}>
+                                  {type.label}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => removeDocument(doc.id)}
+                              className="btn btn-square btn-outline btn-error btn-sm"
+                            >
+                              <svg
+                                className="w-4 h-4"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M6 18L18 6M6 6l12 12"
+                                />
+                              </svg>
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+
+                      <label className="btn btn-outline btn-block">
+                        <svg
+                          className="w-5 h-5 mr-2"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                          />
+                        </svg>
+                        Add Document
+                        <input
+                          type="file"
+                          accept="application/pdf,image/png,image/jpeg"
+                          onChange={handleDocumentInput}
+                          disabled={!isConnected}
+                          className="hidden"
+                        />
+                      </label>
+                    </div>
+                  </div>
+
                   {/* Valuation Section */}
                   <div className="space-y-6">
                     <div>
@@ -606,7 +840,7 @@ const CreateAsset = () => {
                     <button
                       type="submit"
                       className="btn btn-primary btn-lg flex-1"
-                      disabled={!isConnected || isLoading}
+                      disabled={!isConnected || isLoading || isUploading || documents.some((doc) => doc.isUploading)}
                     >
                       {isLoading ? (
                         <>
@@ -662,7 +896,11 @@ const CreateAsset = () => {
             valuation: "",
             image_url: "",
           });
+          if (previewUrl) URL.revokeObjectURL(previewUrl);
+          setPreviewUrl("");
+          setUploadError("");
           setProperties([]);
+          setDocuments([]);
         }}
       />
     </div>
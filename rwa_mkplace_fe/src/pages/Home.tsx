@@ -12,21 +12,31 @@ import { NewsletterSignup } from "../components/NewsletterSignup";
 import { RecentlyListed } from "../components/RecentlyListed";
 import { AssetQuickViewModal } from "../components/AssetQuickViewModal";
 import dummyData from "../data/dummy.json";
+import type { VerificationStatus } from "rwa-marketplace-be-client";
+
+// Listing rows from list-sell / list-nfts carry the token's verification_status;
+// the dummy assets have none and so show as unverified
+type HomeAsset = typeof dummyData.assets[number] & { verification_status?: VerificationStatus };
+const assets: HomeAsset[] = dummyData.assets;
+
+const isVerified = (asset: HomeAsset) => asset.verification_status === 'verified';
 
 const Home = () => {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState('newest');
   const [priceRange, setPriceRange] = useState({ min: 0, max: 100000 });
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
   const [selectedAsset, setSelectedAsset] = useState<typeof dummyData.assets[0] | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  // Filter assets based on selected category, search, and price range
-  const filteredAssets = dummyData.assets.filter((asset) => {
+  // Filter assets based on selected category, search, price range and verification
+  const filteredAssets = assets.filter((asset) => {
     const matchesCategory = selectedCategory ? asset.categoryId === selectedCategory : true;
     const matchesSearch = searchQuery ? asset.name.toLowerCase().includes(searchQuery.toLowerCase()) : true;
     const matchesPrice = asset.price >= priceRange.min && asset.price <= priceRange.max;
-    return matchesCategory && matchesSearch && matchesPrice;
+    const matchesVerified = verifiedOnly ? isVerified(asset) : true;
+    return matchesCategory && matchesSearch && matchesPrice && matchesVerified;
   });
 
   // Sort assets
@@ -165,6 +175,8 @@ const Home = () => {
               onPriceRangeChange={handlePriceRangeChange}
               searchQuery={searchQuery}
               sortBy={sortBy}
+              verifiedOnly={verifiedOnly}
+              onVerifiedOnlyChange={setVerifiedOnly}
             />
           </div>
 
@@ -176,6 +188,7 @@ const Home = () => {
                   key={asset.id}
                   asset={{
                     ...asset,
+                    verified: isVerified(asset),
                     change: '+3.1%' // Mock change for featured assets
                   }}
                   onAssetClick={handleAssetClick}
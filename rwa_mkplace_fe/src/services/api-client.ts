@@ -1,4 +1,4 @@
-import RwaMarketplaceClient from 'rwa-marketplace-be-client';
+import RwaMarketplaceClient, { type DocumentAttachment } from 'rwa-marketplace-be-client';
 
 // Initialize the client with your backend URL
 // You can use environment variables for different environments
@@ -50,7 +50,12 @@ export const checkSignInStatus = async (payloadId: string) => {
 /**
  * Create a new NFT
  */
-export const createNft = async (name: string, imageUrl: string, metadata?: Record<string, unknown>) => {
+export const createNft = async (
+  name: string,
+  imageUrl: string,
+  metadata?: Record<string, unknown>,
+  documents?: DocumentAttachment[]
+) => {
   try {
     // Update client headers with auth token
     const token = localStorage.getItem('jwt_token');
@@ -69,7 +74,8 @@ export const createNft = async (name: string, imageUrl: string, metadata?: Recor
     const response = await apiClient.createNft({
       name,
       image_url: imageUrl,
-      metadata
+      metadata,
+      documents
     });
     return response.data;
   } catch (error) {
@@ -78,6 +84,25 @@ export const createNft = async (name: string, imageUrl: string, metadata?: Recor
   }
 };
 
+/**
+ * Upload an asset image or document; returns its stable URL for createNft
+ */
+export const uploadAssetMedia = async (file: File) => {
+  try {
+    // Update client headers with auth token
+    const authHeaders = getAuthHeaders();
+    if (authHeaders.Authorization) {
+      apiClient.updateConfig({ headers: authHeaders });
+    }
+
+    const response = await apiClient.uploadAssetMedia(file);
+    return response.data;
+  } catch (error) {
+    console.error('Upload asset media error:', error);
+    throw error;
+  }
+};
+
 /**
  * Create an offer for an NFT
  */
@@ -126,5 +151,8 @@ export type {
   SignInResponse,
   SignInStatusResponse,
   CreateNftResponse,
-  CreateOfferResponse
+  CreateOfferResponse,
+  UploadAssetMediaResponse,
+  DocumentAttachment,
+  DocumentType
 } from 'rwa-marketplace-be-client';
\ No newline at end of file
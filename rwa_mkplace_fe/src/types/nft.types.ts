@@ -1,7 +1,12 @@
+// RWA metadata schema "rwa-metadata/1" (XLS-24 compatible); schema and nftType are set by the backend
 export interface NFTMetadata {
+  schema?: string;
+  nftType?: string;
   external_link?: string;
   description: string;
   category?: string;
+  collection?: { name: string; family?: string };
+  attributes?: { trait_type: string; value: string | number }[];
   properties?: Record<string, string>;
   valuation?: number;
 }